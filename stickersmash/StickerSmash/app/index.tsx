@@ -1,9 +1,9 @@
 // app/index.tsx - final version without type errors
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { Text } from 'react-native';
+import { Text, View, ActivityIndicator } from 'react-native';
 import { RootStackParamList, MainTabParamList } from '../src/types/navigation';
 
 // Import screens
@@ -12,6 +12,20 @@ import CollectionScreen from '../src/screens/CollectionScreen';
 import IdentifyScreen from '../src/screens/IdentifyScreen';
 import ProfileScreen from '../src/screens/ProfileScreen';
 import PlantDetailScreen from '../src/screens/PlantDetailScreen';
+import DeveloperSettingsScreen from '../src/screens/DeveloperSettingsScreen';
+import ForgotPasswordScreen from '../src/screens/ForgotPasswordScreen';
+import ChangePasswordScreen from '../src/screens/ChangePasswordScreen';
+import HistoryScreen from '../src/screens/HistoryScreen';
+import TodayScreen from '../src/screens/TodayScreen';
+import { loadEnvironment } from '../src/config/environment';
+import { loadConfidenceThreshold } from '../src/config/confidence';
+import { AuthProvider, useAuth } from '../src/context/AuthContext';
+import { OfflineQueueProvider } from '../src/context/OfflineQueueContext';
+import { NotificationProvider } from '../src/context/NotificationContext';
+import { PlantCollectionProvider } from '../src/context/PlantCollectionContext';
+import { CareLogProvider } from '../src/context/CareLogContext';
+import { CareScheduleProvider, useCareSchedule } from '../src/context/CareScheduleContext';
+import { countOverdueTasks } from '../src/storage/careSchedule';
 
 // Create non-typed navigators to avoid the type compatibility issues
 const Stack = createNativeStackNavigator();
@@ -19,6 +33,9 @@ const Tab = createBottomTabNavigator();
 
 // Bottom Tab Navigator
 const MainTabs = () => {
+  const { tasks } = useCareSchedule();
+  const overdueCount = countOverdueTasks(tasks);
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -27,6 +44,8 @@ const MainTabs = () => {
           
           if (route.name === 'Collection') {
             icon = '🌿';
+          } else if (route.name === 'Today') {
+            icon = '💧';
           } else if (route.name === 'Identify') {
             icon = '📷';
           } else if (route.name === 'Profile') {
@@ -40,22 +59,86 @@ const MainTabs = () => {
       })}
     >
       <Tab.Screen name="Collection" component={CollectionScreen} />
+      {/* Badge counts overdue tasks only; tasks due today are listed without nagging */}
+      <Tab.Screen
+        name="Today"
+        component={TodayScreen}
+        options={{ tabBarBadge: overdueCount > 0 ? overdueCount : undefined }}
+      />
       <Tab.Screen name="Identify" component={IdentifyScreen} />
       <Tab.Screen name="Profile" component={ProfileScreen} />
     </Tab.Navigator>
   );
 };
 
+const LoadingView = () => (
+  <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+    <ActivityIndicator size="large" color="#4CAF50" />
+  </View>
+);
+
+// Screens are only registered for the current auth state, so signed-out users can't reach Main
+const RootStack = () => {
+  const { status } = useAuth();
+
+  if (status === 'loading') {
+    return <LoadingView />;
+  }
+
+  return (
+    <Stack.Navigator screenOptions={{ headerShown: false }}>
+      {status === 'signedIn' ? (
+        <>
+          <Stack.Screen name="Main" component={MainTabs} />
+          <Stack.Screen name="PlantDetail" component={PlantDetailScreen} />
+          <Stack.Screen name="ChangePassword" component={ChangePasswordScreen} />
+          <Stack.Screen name="History" component={HistoryScreen} />
+        </>
+      ) : (
+        <>
+          <Stack.Screen name="Auth" component={AuthScreen} />
+          <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+        </>
+      )}
+      {/* Keyed on status so an open settings screen is dropped when the session changes */}
+      <Stack.Screen
+        name="DeveloperSettings"
+        component={DeveloperSettingsScreen}
+        navigationKey={status}
+      />
+    </Stack.Navigator>
+  );
+};
+
 // Main Navigator
 const AppNavigator = () => {
+  const [ready, setReady] = useState(false);
+
+  // Restore the selected backend and saved settings before any screen sends a request
+  useEffect(() => {
+    Promise.all([loadEnvironment(), loadConfidenceThreshold()]).finally(() => setReady(true));
+  }, []);
+
+  if (!ready) {
+    return <LoadingView />;
+  }
+
   return (
-    <NavigationContainer>
-      <Stack.Navigator initialRouteName="Auth" screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="Auth" component={AuthScreen} />
-        <Stack.Screen name="Main" component={MainTabs} />
-        <Stack.Screen name="PlantDetail" component={PlantDetailScreen} />
-      </Stack.Navigator>
-    </NavigationContainer>
+    <NotificationProvider>
+      <AuthProvider>
+        <OfflineQueueProvider>
+          <PlantCollectionProvider>
+            <CareLogProvider>
+              <CareScheduleProvider>
+                <NavigationContainer>
+                  <RootStack />
+                </NavigationContainer>
+              </CareScheduleProvider>
+            </CareLogProvider>
+          </PlantCollectionProvider>
+        </OfflineQueueProvider>
+      </AuthProvider>
+    </NotificationProvider>
   );
 };
 
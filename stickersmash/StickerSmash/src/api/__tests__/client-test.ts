@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { api, ApiError, setSessionExpiredHandler } from '../client';
+import { clearSession, saveTokens } from '../tokenStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const mockResponse = (status: number, body: unknown) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    text: () => Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+  });
+
+const fetchMock = jest.fn();
+
+beforeEach(async () => {
+  fetchMock.mockReset();
+  global.fetch = fetchMock as unknown as typeof fetch;
+  await AsyncStorage.clear();
+  await clearSession();
+  setSessionExpiredHandler(null);
+});
+
+it('sends the stored token as a Bearer header', async () => {
+  await saveTokens({ access_token: 'abc123' });
+  fetchMock.mockReturnValue(mockResponse(200, [{ _id: '1', name: 'Fern' }]));
+
+  const plants = await api.listPlants();
+
+  expect(plants).toHaveLength(1);
+  const [url, init] = fetchMock.mock.calls[0];
+  expect(url).toMatch(/\/api\/plants$/);
+  expect(init.headers['Authorization']).toBe('Bearer abc123');
+});
+
+it('encodes plant query parameters, repeating lists', async () => {
+  await saveTokens({ access_token: 'abc123' });
+  fetchMock.mockReturnValue(mockResponse(200, []));
+
+  await api.listPlants({ sort: 'name', type: ['Boston fern', 'Ficus, lyrata'] });
+
+  const [url] = fetchMock.mock.calls[0];
+  expect(url).toMatch(/\/api\/plants\?sort=name&type=Boston%20fern&type=Ficus%2C%20lyrata$/);
+});
+
+it('posts credentials as a url encoded form without auth', async () => {
+  fetchMock.mockReturnValue(
+    mockResponse(200, { access_token: 't', _id: 'u1', username: 'ada' })
+  );
+
+  const data = await api.login('ada', 'secret');
+
+  expect(data.access_token).toBe('t');
+  const [, init] = fetchMock.mock.calls[0];
+  expect(init.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+  expect(init.headers['Authorization']).toBeUndefined();
+  expect(init.body).toBe('username=ada&password=secret');
+});
+
+it('throws an ApiError carrying the FastAPI detail', async () => {
+  await saveTokens({ access_token: 'abc123' });
+  fetchMock.mockReturnValue(mockResponse(404, { detail: 'Plant not found' }));
+
+  const error = await api.deletePlant('missing').catch((e) => e);
+
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error.kind).toBe('http');
+  expect(error.status).toBe(404);
+  expect(error.message).toBe('Plant not found');
+});
+
+it('joins validation error messages', async () => {
+  fetchMock.mockReturnValue(
+    mockResponse(422, {
+      detail: [
+        { loc: ['body', 'username'], msg: 'field required', type: 'value_error.missing' },
+        { loc: ['body', 'password'], msg: 'too short', type: 'value_error' },
+      ],
+    })
+  );
+
+  const error = await api.register('', '').catch((e) => e);
+
+  expect(error.status).toBe(422);
+  expect(error.message).toBe('field required\ntoo short');
+});
+
+it('reports network failures', async () => {
+  await saveTokens({ access_token: 'abc123' });
+  fetchMock.mockReturnValue(Promise.reject(new TypeError('Network request failed')));
+
+  const error = await api.listPlants().catch((e) => e);
+
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error.kind).toBe('network');
+});
+
+it('rejects authenticated requests when no token is stored', async () => {
+  const onExpired = jest.fn();
+  setSessionExpiredHandler(onExpired);
+
+  const error = await api.deleteMe().catch((e) => e);
+
+  expect(error.kind).toBe('session');
+  expect(onExpired).toHaveBeenCalled();
+  expect(fetchMock).not.toHaveBeenCalled();
+});
+
+it('refreshes an expiring token once for concurrent requests', async () => {
+  await saveTokens({ access_token: 'old', refresh_token: 'r1', expires_in: 10 });
+  fetchMock.mockImplementation((url: string) =>
+    url.endsWith('/api/auth/refresh')
+      ? mockResponse(200, { access_token: 'new', expires_in: 3600 })
+      : mockResponse(200, [])
+  );
+
+  await Promise.all([api.listPlants(), api.listPlants()]);
+
+  const refreshCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/api/auth/refresh'));
+  expect(refreshCalls).toHaveLength(1);
+  expect(JSON.parse(refreshCalls[0][1].body)).toEqual({ refresh_token: 'r1' });
+  const plantCalls = fetchMock.mock.calls.filter(([url]) => url.endsWith('/api/plants'));
+  expect(plantCalls.map(([, init]) => init.headers['Authorization'])).toEqual([
+    'Bearer new',
+    'Bearer new',
+  ]);
+});
+
+it('retries once with a refreshed token after a 401', async () => {
+  await saveTokens({ access_token: 'stale', refresh_token: 'r1' });
+  fetchMock
+    .mockReturnValueOnce(mockResponse(401, { detail: 'Token expired' }))
+    .mockReturnValueOnce(mockResponse(200, { access_token: 'fresh' }))
+    .mockReturnValueOnce(mockResponse(200, [{ _id: '1' }]));
+
+  const plants = await api.listPlants();
+
+  expect(plants).toHaveLength(1);
+  expect(fetchMock.mock.calls[2][1].headers['Authorization']).toBe('Bearer fresh');
+});
+
+it('expires the session when the refresh token is rejected', async () => {
+  const onExpired = jest.fn();
+  setSessionExpiredHandler(onExpired);
+  await saveTokens({ access_token: 'stale', refresh_token: 'r1' });
+  fetchMock
+    .mockReturnValueOnce(mockResponse(401, { detail: 'Token expired' }))
+    .mockReturnValueOnce(mockResponse(401, { detail: 'Invalid refresh token' }));
+
+  const error = await api.listPlants().catch((e) => e);
+
+  expect(error.kind).toBe('session');
+  expect(onExpired).toHaveBeenCalledTimes(1);
+});
+
+it('keeps the session when the refresh endpoint has a server error', async () => {
+  const onExpired = jest.fn();
+  setSessionExpiredHandler(onExpired);
+  await saveTokens({ access_token: 'stale', refresh_token: 'r1' });
+  fetchMock
+    .mockReturnValueOnce(mockResponse(401, { detail: 'Token expired' }))
+    .mockReturnValueOnce(mockResponse(502, 'Bad Gateway'));
+
+  const error = await api.listPlants().catch((e) => e);
+
+  expect(error.kind).toBe('http');
+  expect(error.status).toBe(502);
+  expect(onExpired).not.toHaveBeenCalled();
+});
@@ -0,0 +1,395 @@
+// src/api/client.ts - shared transport for every backend request
+import {
+  AuthResponse,
+  AuthUserResponse,
+  CareEvent,
+  IdentificationResult,
+  JournalEntry,
+  JournalEntryUpdate,
+  NewCareEvent,
+  NewJournalEntry,
+  NewPlant,
+  Plant,
+  PlantQuery,
+  PlantSpecies,
+  PlantUpdate,
+  TokenResponse,
+  ValidationErrorItem,
+} from '../types/api';
+import { getApiUrl } from '../config/environment';
+import { getTokens, isExpiring, saveTokens } from './tokenStore';
+
+// Requests that take longer than this are aborted
+const DEFAULT_TIMEOUT_MS = 15000;
+// Identification runs a model on the server, so give it more time
+const IDENTIFY_TIMEOUT_MS = 60000;
+
+// 'session' means the user has to log in again
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'session';
+
+// Error thrown for every failed request
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number;
+  detail: unknown;
+
+  constructor(message: string, kind: ApiErrorKind, status: number = 0, detail?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Sent as JSON
+  json?: unknown;
+  // Sent as-is (URL encoded or multipart)
+  form?: URLSearchParams | FormData;
+  // Attach the stored Bearer token (default true)
+  auth?: boolean;
+  timeoutMs?: number;
+};
+
+// Called when the session can't be used or refreshed any more
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+const sessionExpired = () => {
+  sessionExpiredHandler?.();
+  return new ApiError('Your session has expired. Please log in again.', 'session', 401);
+};
+
+// Turn a FastAPI `detail` (string or list of validation errors) into a readable message
+export const formatErrorDetail = (detail: unknown): string | null => {
+  if (typeof detail === 'string') {
+    return detail;
+  }
+
+  if (Array.isArray(detail)) {
+    const messages = (detail as ValidationErrorItem[])
+      .map((item) => item?.msg)
+      .filter(Boolean);
+    return messages.length > 0 ? messages.join('\n') : null;
+  }
+
+  return null;
+};
+
+// Session errors are handled globally by sending the user back to AuthScreen
+export const isSessionExpiredError = (error: unknown) =>
+  error instanceof ApiError && error.kind === 'session';
+
+// No response from the server: the device is offline or the backend is unreachable
+export const isOfflineError = (error: unknown) =>
+  error instanceof ApiError && (error.kind === 'network' || error.kind === 'timeout');
+
+// Message to show the user for any error thrown by the client (or elsewhere)
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+};
+
+// "?a=1&b=2&b=3", or "" when there's nothing to send
+const toQueryString = (query: PlantQuery) => {
+  const params = Object.entries(query).flatMap(([key, value]) =>
+    (Array.isArray(value) ? value : [value]).map(
+      (item) => `${encodeURIComponent(key)}=${encodeURIComponent(item)}`
+    )
+  );
+  return params.length > 0 ? `?${params.join('&')}` : '';
+};
+
+const parseBody = (text: string): unknown => {
+  if (!text) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+const send = async <T>(
+  path: string,
+  options: RequestOptions,
+  token: string | null
+): Promise<{ status: number; data: T }> => {
+  const { method = 'GET', json, form, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  };
+
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let body: string | FormData | undefined;
+  if (json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    body = JSON.stringify(json);
+  } else if (form instanceof URLSearchParams) {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    body = form.toString();
+  } else if (form) {
+    // Let fetch set the multipart boundary
+    body = form;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(`${getApiUrl()}${path}`, {
+      method,
+      headers,
+      body,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError('The server took too long to respond. Please try again.', 'timeout');
+    }
+    throw new ApiError('Unable to reach the server. Check your connection and try again.', 'network');
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const data = parseBody(await response.text());
+
+  // Let the caller decide whether a 401 can be recovered by refreshing
+  if (!response.ok && !(response.status === 401 && token)) {
+    const detail = data && typeof data === 'object' && 'detail' in data
+      ? (data as { detail: unknown }).detail
+      : data;
+    const message = formatErrorDetail(detail) || `Request failed with status ${response.status}`;
+    throw new ApiError(message, 'http', response.status, detail);
+  }
+
+  return { status: response.status, data: data as T };
+};
+
+// Shared by every request that finds the token expiring, so concurrent requests wait for one refresh
+let refreshPromise: Promise<string | null> | null = null;
+
+// Refresh responses that mean the refresh token itself is no good
+const REJECTED_REFRESH_STATUSES = [400, 401, 403];
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const tokens = await getTokens();
+      if (!tokens?.refreshToken) {
+        return null;
+      }
+
+      try {
+        const { data } = await send<TokenResponse>(
+          '/api/auth/refresh',
+          { method: 'POST', json: { refresh_token: tokens.refreshToken } },
+          null
+        );
+        const saved = await saveTokens(data);
+        return saved.accessToken;
+      } catch (error) {
+        // A rejected refresh token ends the session; server errors and connection problems are passed on
+        if (error instanceof ApiError && error.kind === 'http' && REJECTED_REFRESH_STATUSES.includes(error.status)) {
+          return null;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Current access token, refreshed first if it is about to expire
+const getValidAccessToken = async () => {
+  const tokens = await getTokens();
+  if (!tokens) {
+    return null;
+  }
+  if (isExpiring(tokens)) {
+    return refreshAccessToken();
+  }
+  return tokens.accessToken;
+};
+
+const request = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const { auth = true } = options;
+
+  if (!auth) {
+    return (await send<T>(path, options, null)).data;
+  }
+
+  const token = await getValidAccessToken();
+  if (!token) {
+    throw sessionExpired();
+  }
+
+  const result = await send<T>(path, options, token);
+  if (result.status !== 401) {
+    return result.data;
+  }
+
+  // The server rejected a token we thought was valid; refresh and retry once
+  const refreshed = await refreshAccessToken();
+  if (!refreshed) {
+    throw sessionExpired();
+  }
+
+  const retry = await send<T>(path, options, refreshed);
+  if (retry.status === 401) {
+    throw sessionExpired();
+  }
+  return retry.data;
+};
+
+// Function to get proper image URI
+export const resolveImageUri = (imageUrl: string | undefined): string => {
+  if (!imageUrl) return '';
+
+  // If it starts with 'http', it's already a full URL
+  if (imageUrl.startsWith('http')) {
+    return imageUrl;
+  }
+
+  // If it starts with '/', it's a server path that needs the API URL prepended
+  if (imageUrl.startsWith('/')) {
+    return `${getApiUrl()}${imageUrl}`;
+  }
+
+  // Otherwise, just return the URL as is (could be a local file URI)
+  return imageUrl;
+};
+
+// For FastAPI OAuth2PasswordRequestForm, use application/x-www-form-urlencoded
+const credentialsForm = (username: string, password: string) => {
+  const formData = new URLSearchParams();
+  formData.append('username', username);
+  formData.append('password', password);
+  return formData;
+};
+
+export const api = {
+  login: (username: string, password: string) =>
+    request<AuthResponse>('/api/auth/login', {
+      method: 'POST',
+      form: credentialsForm(username, password),
+      auth: false,
+    }),
+
+  register: (username: string, password: string) =>
+    request<AuthResponse>('/api/auth/register', {
+      method: 'POST',
+      form: credentialsForm(username, password),
+      auth: false,
+    }),
+
+  // Sends a reset code to the account's registered contact
+  requestPasswordReset: (username: string) =>
+    request<void>('/api/auth/password-reset/request', {
+      method: 'POST',
+      json: { username },
+      auth: false,
+    }),
+
+  confirmPasswordReset: (username: string, code: string, newPassword: string) =>
+    request<void>('/api/auth/password-reset/confirm', {
+      method: 'POST',
+      json: { username, code, new_password: newPassword },
+      auth: false,
+    }),
+
+  changePassword: (currentPassword: string, newPassword: string) =>
+    request<void>('/api/auth/change-password', {
+      method: 'POST',
+      json: { current_password: currentPassword, new_password: newPassword },
+    }),
+
+  identify: async (imageUri: string) => {
+    // Create a file from the image URI
+    const fileResponse = await fetch(imageUri);
+    const fileBlob = await fileResponse.blob();
+
+    const formData = new FormData();
+    formData.append('file', fileBlob, 'plant_image.jpg');
+
+    return request<IdentificationResult>('/api/identify/', {
+      method: 'POST',
+      form: formData,
+      timeoutMs: IDENTIFY_TIMEOUT_MS,
+    });
+  },
+
+  listPlants: async (query: PlantQuery = {}) => {
+    const data = await request<Plant[] | null>(`/api/plants${toQueryString(query)}`);
+    if (data !== null && !Array.isArray(data)) {
+      throw new ApiError('Received invalid data format from server', 'http', 200, data);
+    }
+    return data || [];
+  },
+
+  createPlant: (plant: NewPlant) =>
+    request<Plant>('/api/plants/', { method: 'POST', json: plant }),
+
+  updatePlant: (plantId: string, changes: PlantUpdate) =>
+    request<Plant>(`/api/plants/${plantId}`, { method: 'PATCH', json: changes }),
+
+  deletePlant: (plantId: string) =>
+    request<void>(`/api/plants/${plantId}`, { method: 'DELETE' }),
+
+  listJournal: async (plantId: string) => {
+    const data = await request<JournalEntry[] | null>(`/api/plants/${plantId}/journal`);
+    if (data !== null && !Array.isArray(data)) {
+      throw new ApiError('Received invalid data format from server', 'http', 200, data);
+    }
+    return data || [];
+  },
+
+  createJournalEntry: (plantId: string, entry: NewJournalEntry) =>
+    request<JournalEntry>(`/api/plants/${plantId}/journal`, { method: 'POST', json: entry }),
+
+  updateJournalEntry: (plantId: string, entryId: string, changes: JournalEntryUpdate) =>
+    request<JournalEntry>(`/api/plants/${plantId}/journal/${entryId}`, { method: 'PATCH', json: changes }),
+
+  deleteJournalEntry: (plantId: string, entryId: string) =>
+    request<void>(`/api/plants/${plantId}/journal/${entryId}`, { method: 'DELETE' }),
+
+  // Every care event for the signed-in user's plants
+  listCareEvents: async () => {
+    const data = await request<CareEvent[] | null>('/api/care-events');
+    if (data !== null && !Array.isArray(data)) {
+      throw new ApiError('Received invalid data format from server', 'http', 200, data);
+    }
+    return data || [];
+  },
+
+  createCareEvent: (plantId: string, event: NewCareEvent) =>
+    request<CareEvent>(`/api/plants/${plantId}/care-events`, { method: 'POST', json: event }),
+
+  deleteCareEvent: (plantId: string, eventId: string) =>
+    request<void>(`/api/plants/${plantId}/care-events/${eventId}`, { method: 'DELETE' }),
+
+  getSpecies: (plantType: string) =>
+    request<PlantSpecies>(`/api/plant-species/${encodeURIComponent(plantType)}`),
+
+  getMe: () =>
+    request<AuthUserResponse>('/api/users/me'),
+
+  deleteMe: () =>
+    request<void>('/api/users/me', { method: 'DELETE' }),
+};
@@ -0,0 +1,94 @@
+// src/api/tokenStore.ts - access/refresh tokens and when they expire
+import {
+  getCredentials,
+  removeCredential,
+  removeCredentials,
+  setCredential,
+} from '../storage/credentials';
+import { TokenResponse } from '../types/api';
+
+export type StoredTokens = {
+  accessToken: string;
+  refreshToken: string | null;
+  // Epoch milliseconds, null when the expiry is unknown
+  expiresAt: number | null;
+};
+
+const ACCESS_TOKEN_KEY = 'userToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const EXPIRES_AT_KEY = 'tokenExpiresAt';
+
+// Refresh this long before the token actually expires to allow for clock skew
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Kept in memory so every request doesn't hit storage
+let cached: StoredTokens | null | undefined;
+
+// Read the `exp` claim from a JWT without verifying it
+const decodeJwtExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { exp } = JSON.parse(json);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const getTokens = async (): Promise<StoredTokens | null> => {
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const [accessToken, refreshToken, expiresAt] = await getCredentials([
+    ACCESS_TOKEN_KEY,
+    REFRESH_TOKEN_KEY,
+    EXPIRES_AT_KEY,
+  ]);
+  cached = accessToken
+    ? {
+        accessToken,
+        refreshToken: refreshToken || null,
+        expiresAt: expiresAt ? Number(expiresAt) : decodeJwtExpiry(accessToken),
+      }
+    : null;
+  return cached;
+};
+
+export const saveTokens = async (response: TokenResponse) => {
+  const previous = await getTokens();
+  const expiresAt = response.expires_in
+    ? Date.now() + response.expires_in * 1000
+    : decodeJwtExpiry(response.access_token);
+
+  const tokens: StoredTokens = {
+    accessToken: response.access_token,
+    // Servers that don't rotate refresh tokens omit it from refresh responses
+    refreshToken: response.refresh_token || previous?.refreshToken || null,
+    expiresAt,
+  };
+
+  await setCredential(ACCESS_TOKEN_KEY, tokens.accessToken);
+  if (tokens.refreshToken) {
+    await setCredential(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  }
+  if (tokens.expiresAt) {
+    await setCredential(EXPIRES_AT_KEY, String(tokens.expiresAt));
+  } else {
+    await removeCredential(EXPIRES_AT_KEY);
+  }
+
+  cached = tokens;
+  return tokens;
+};
+
+// The one place a session is torn down: tokens and the stored account details
+export const clearSession = async () => {
+  cached = null;
+  await removeCredentials();
+};
+
+export const isExpiring = (tokens: StoredTokens) =>
+  tokens.expiresAt !== null && tokens.expiresAt - EXPIRY_MARGIN_MS <= Date.now();
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import { getErrorMessage } from '@/src/api/client';
+import { useCareLog } from '@/src/context/CareLogContext';
+import { useNotifications } from '@/src/context/NotificationContext';
+import {
+  CARE_EVENTS,
+  CARE_EVENT_TYPES,
+  LoggedCareEvent,
+  formatDaysAgo,
+  getCareStats,
+} from '@/src/storage/careLog';
+import { CareEventType } from '@/src/types/api';
+import { confirmAction } from '@/src/utils/dialogs';
+
+// Events shown before "Show all"
+const RECENT_LIMIT = 5;
+
+// Quick-log buttons, stats and the history of care given to one plant
+export function CareLog({ plantId }: { plantId: string }) {
+  const { events, getPlantEvents, logEvent, deleteEvent } = useCareLog();
+  const { notify } = useNotifications();
+  const [showDetails, setShowDetails] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  const plantEvents = getPlantEvents(plantId);
+  const visibleEvents = showAll ? plantEvents : plantEvents.slice(0, RECENT_LIMIT);
+  const stats = CARE_EVENT_TYPES
+    .map((type) => ({ type, ...getCareStats(events, plantId, type) }))
+    .filter((stat) => stat.count > 0);
+
+  const handleLog = async (type: CareEventType) => {
+    await logEvent(plantId, type, { amount: amount.trim() || null, note: note.trim() || null });
+    setAmount('');
+    setNote('');
+    setShowDetails(false);
+    notify('success', `${CARE_EVENTS[type].pastTense} logged`);
+  };
+
+  const handleDelete = async (event: LoggedCareEvent) => {
+    const confirmed = await confirmAction({
+      title: 'Delete Care Entry',
+      message: `Remove "${CARE_EVENTS[event.type].pastTense}" on ${new Date(event.date).toLocaleDateString()} from the log?`,
+      confirmText: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteEvent(event);
+    } catch (error) {
+      console.error('Error deleting care event:', error);
+      notify('error', getErrorMessage(error, 'Failed to delete care entry'));
+    }
+  };
+
+  const renderEvent = (event: LoggedCareEvent) => {
+    const date = new Date(event.date);
+    return (
+      <View key={event._id} style={styles.eventRow}>
+        <Ionicons name={CARE_EVENTS[event.type].icon} size={18} color="#4CAF50" />
+        <View style={styles.eventText}>
+          <Text style={styles.eventTitle}>
+            {CARE_EVENTS[event.type].pastTense}
+            {event.amount ? ` · ${event.amount}` : ''}
+          </Text>
+          <Text style={styles.eventMeta}>
+            {date.toLocaleDateString()} {date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {event.pending ? ' · not synced yet' : ''}
+          </Text>
+          {event.note ? <Text style={styles.eventNote}>{event.note}</Text> : null}
+        </View>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(event)}>
+          <Ionicons name="trash-outline" size={16} color="#ff6b6b" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Care Log</Text>
+
+      {stats.map((stat) => (
+        <Text key={stat.type} style={styles.statText}>
+          {CARE_EVENTS[stat.type].pastTense} {formatDaysAgo(stat.daysSinceLast!)}
+          {stat.averageIntervalDays !== null ? ` · about every ${stat.averageIntervalDays} days` : ''}
+          {` (${stat.count}×)`}
+        </Text>
+      ))}
+
+      <View style={styles.quickLogRow}>
+        {CARE_EVENT_TYPES.map((type) => (
+          <TouchableOpacity key={type} style={styles.quickLogButton} onPress={() => handleLog(type)}>
+            <Ionicons name={CARE_EVENTS[type].icon} size={20} color="#4CAF50" />
+            <Text style={styles.quickLogText}>{CARE_EVENTS[type].label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity onPress={() => setShowDetails(!showDetails)}>
+        <Text style={styles.linkText}>{showDetails ? 'Hide details' : 'Add amount or note'}</Text>
+      </TouchableOpacity>
+
+      {showDetails && (
+        <View style={styles.details}>
+          <TextInput
+            style={styles.input}
+            placeholder="Amount (e.g. 250 ml)"
+            value={amount}
+            onChangeText={setAmount}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Note"
+            value={note}
+            onChangeText={setNote}
+          />
+          <Text style={styles.hintText}>Tap a button above to log with these details</Text>
+        </View>
+      )}
+
+      {plantEvents.length === 0 ? (
+        <Text style={styles.emptyText}>No care logged yet.</Text>
+      ) : (
+        <View style={styles.eventList}>
+          {visibleEvents.map(renderEvent)}
+          {plantEvents.length > RECENT_LIMIT && (
+            <TouchableOpacity onPress={() => setShowAll(!showAll)}>
+              <Text style={styles.linkText}>{showAll ? 'Show less' : `Show all (${plantEvents.length})`}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#4CAF50',
+  },
+  statText: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  quickLogRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  quickLogButton: {
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    marginRight: 8,
+    marginBottom: 8,
+    minWidth: 60,
+  },
+  quickLogText: {
+    fontSize: 12,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  linkText: {
+    color: '#4CAF50',
+    fontSize: 13,
+    paddingVertical: 4,
+  },
+  details: {
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 10,
+    borderRadius: 5,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+  },
+  eventList: {
+    marginTop: 8,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  eventText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  eventNote: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 4,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+});
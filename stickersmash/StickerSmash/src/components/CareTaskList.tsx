@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import { getErrorMessage } from '@/src/api/client';
+import { useCareSchedule } from '@/src/context/CareScheduleContext';
+import { useNotifications } from '@/src/context/NotificationContext';
+import {
+  CareTask,
+  MAX_INTERVAL_DAYS,
+  MIN_INTERVAL_DAYS,
+  getDaysUntilDue,
+  getTaskInterval,
+} from '@/src/storage/careSchedule';
+import { exportCareCalendar } from '@/src/utils/calendarExport';
+import { CARE_TASKS, formatDueIn, formatInterval } from '@/src/utils/careFrequency';
+
+// Care tasks for one plant: when each is due, mark done or snooze, and change how often it repeats
+export function CareTaskList({ plantId }: { plantId: string }) {
+  const { getPlantTasks, loading, markDone, snooze, setIntervalOverride } = useCareSchedule();
+  const { notify } = useNotifications();
+  const [adjustingId, setAdjustingId] = useState<string | null>(null);
+  const tasks = getPlantTasks(plantId);
+
+  const handleAddToCalendar = async () => {
+    try {
+      await exportCareCalendar(tasks, `${tasks[0].plantName} care`);
+    } catch (error) {
+      console.error('Error exporting care calendar:', error);
+      notify('error', getErrorMessage(error, 'Failed to export care calendar'));
+    }
+  };
+
+  const renderTask = (task: CareTask) => {
+    const definition = CARE_TASKS[task.type];
+    const interval = getTaskInterval(task);
+    const daysUntilDue = getDaysUntilDue(task);
+    const adjusting = adjustingId === task.id;
+
+    return (
+      <View key={task.id} style={styles.task}>
+        <View style={styles.taskRow}>
+          <Ionicons name={definition.icon} size={22} color="#4CAF50" />
+          <View style={styles.taskText}>
+            <Text style={styles.taskLabel}>{definition.label}</Text>
+            <Text style={styles.taskInterval}>
+              {formatInterval(interval)}
+              {task.overrideDays !== null ? ' (custom)' : ''}
+            </Text>
+            <Text style={[styles.taskDue, daysUntilDue < 0 && styles.overdue]}>
+              {formatDueIn(daysUntilDue)}
+              {task.snoozedUntil ? ' · snoozed' : ''}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.doneButton} onPress={() => markDone(task.id)}>
+            <Ionicons name="checkmark" size={16} color="#fff" />
+            <Text style={styles.doneText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.secondaryActions}>
+          <TouchableOpacity style={styles.linkButton} onPress={() => snooze(task.id)}>
+            <Text style={styles.linkText}>Snooze 1 day</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.linkButton} onPress={() => setAdjustingId(adjusting ? null : task.id)}>
+            <Text style={styles.linkText}>{adjusting ? 'Close' : 'Change interval'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {adjusting && (
+          <View style={styles.stepperRow}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setIntervalOverride(task.id, interval - 1)}
+              disabled={interval <= MIN_INTERVAL_DAYS}
+            >
+              <Text style={styles.stepperText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{interval} days</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setIntervalOverride(task.id, interval + 1)}
+              disabled={interval >= MAX_INTERVAL_DAYS}
+            >
+              <Text style={styles.stepperText}>+</Text>
+            </TouchableOpacity>
+            {task.overrideDays !== null && (
+              <TouchableOpacity style={styles.linkButton} onPress={() => setIntervalOverride(task.id, null)}>
+                <Text style={styles.linkText}>Use suggested ({task.suggestedDays})</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Care Schedule</Text>
+      {loading ? null : tasks.length === 0 ? (
+        <Text style={styles.emptyText}>No care tasks scheduled yet.</Text>
+      ) : (
+        <>
+          {tasks.map(renderTask)}
+          <TouchableOpacity style={styles.calendarButton} onPress={handleAddToCalendar}>
+            <Ionicons name="calendar-outline" size={16} color="#4CAF50" />
+            <Text style={styles.linkText}>Add to calendar</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#4CAF50',
+  },
+  task: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  taskText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  taskLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  taskInterval: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  taskDue: {
+    fontSize: 13,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  overdue: {
+    color: '#d32f2f',
+  },
+  doneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 5,
+  },
+  doneText: {
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  secondaryActions: {
+    flexDirection: 'row',
+    marginLeft: 34,
+    marginTop: 4,
+  },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  linkButton: {
+    paddingVertical: 4,
+    marginRight: 16,
+  },
+  linkText: {
+    color: '#4CAF50',
+    fontSize: 13,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 34,
+    marginTop: 6,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    color: '#4CAF50',
+    fontSize: 20,
+    lineHeight: 22,
+  },
+  stepperValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    width: 70,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+});
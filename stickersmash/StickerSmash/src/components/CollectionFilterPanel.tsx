@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import {
+  COLLECTION_SORTS,
+  COLLECTION_SORT_OPTIONS,
+  CollectionFilters,
+  CollectionPreferences,
+  CollectionSort,
+  DEFAULT_COLLECTION_FILTERS,
+} from '@/src/utils/collectionView';
+import { isValidIsoDate } from '@/src/utils/validation';
+
+const CONFIDENCE_STEP = 0.1;
+
+type CollectionFilterPanelProps = {
+  visible: boolean;
+  preferences: CollectionPreferences;
+  speciesOptions: string[];
+  locationOptions: string[];
+  onChange: (preferences: CollectionPreferences) => void;
+  onClose: () => void;
+};
+
+type DateField = 'addedFrom' | 'addedTo';
+
+const PHOTO_OPTIONS: { label: string; value: boolean | null }[] = [
+  { label: 'Any', value: null },
+  { label: 'With photo', value: true },
+  { label: 'Without photo', value: false },
+];
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const roundConfidence = (value: number) => Math.min(1, Math.max(0, Number(value.toFixed(1))));
+
+// Bottom sheet for choosing how the collection is sorted and which plants are shown; every change
+// applies straight away
+export function CollectionFilterPanel({
+  visible,
+  preferences,
+  speciesOptions,
+  locationOptions,
+  onChange,
+  onClose,
+}: CollectionFilterPanelProps) {
+  const { sort, direction, filters } = preferences;
+  // Typed dates only become filters once they're complete and valid
+  const [dates, setDates] = useState({ addedFrom: filters.addedFrom || '', addedTo: filters.addedTo || '' });
+
+  useEffect(() => {
+    if (visible) {
+      setDates({ addedFrom: filters.addedFrom || '', addedTo: filters.addedTo || '' });
+    }
+  }, [visible]);
+
+  const setFilters = (changes: Partial<CollectionFilters>) =>
+    onChange({ ...preferences, filters: { ...filters, ...changes } });
+
+  // Choosing the current sort again flips its direction
+  const handleSort = (option: CollectionSort) =>
+    onChange({
+      ...preferences,
+      sort: option,
+      direction:
+        option === sort ? (direction === 'asc' ? 'desc' : 'asc') : COLLECTION_SORTS[option].defaultDirection,
+    });
+
+  const handleDate = (field: DateField) => (text: string) => {
+    setDates((current) => ({ ...current, [field]: text }));
+    const value = text.trim();
+    if (!value) {
+      setFilters({ [field]: null });
+    } else if (isValidIsoDate(value)) {
+      setFilters({ [field]: value });
+    }
+  };
+
+  const isDateInvalid = (field: DateField) => !!dates[field].trim() && !isValidIsoDate(dates[field].trim());
+
+  const handleReset = () => {
+    setDates({ addedFrom: '', addedTo: '' });
+    onChange({ ...preferences, filters: DEFAULT_COLLECTION_FILTERS });
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string = label) => (
+    <TouchableOpacity key={key} style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderConfidenceStepper = (label: string, field: 'minConfidence' | 'maxConfidence') => {
+    const value = filters[field];
+    const lower = field === 'minConfidence' ? 0 : filters.minConfidence;
+    const upper = field === 'minConfidence' ? filters.maxConfidence : 1;
+
+    return (
+      <View style={styles.stepperRow}>
+        <Text style={styles.stepperLabel}>{label}</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setFilters({ [field]: roundConfidence(value - CONFIDENCE_STEP) })}
+          disabled={value - CONFIDENCE_STEP < lower - 0.001}
+        >
+          <Text style={styles.stepperText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{Math.round(value * 100)}%</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setFilters({ [field]: roundConfidence(value + CONFIDENCE_STEP) })}
+          disabled={value + CONFIDENCE_STEP > upper + 0.001}
+        >
+          <Text style={styles.stepperText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Sort & Filter</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color="#333" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionTitle}>Sort by</Text>
+            <View style={styles.chips}>
+              {COLLECTION_SORT_OPTIONS.map((option) =>
+                renderChip(
+                  option === sort
+                    ? `${COLLECTION_SORTS[option].label} ${direction === 'asc' ? '↑' : '↓'}`
+                    : COLLECTION_SORTS[option].label,
+                  option === sort,
+                  () => handleSort(option),
+                  option
+                )
+              )}
+            </View>
+
+            {speciesOptions.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Species</Text>
+                <View style={styles.chips}>
+                  {speciesOptions.map((species) =>
+                    renderChip(species, filters.species.includes(species), () =>
+                      setFilters({ species: toggle(filters.species, species) })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {locationOptions.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Room / location</Text>
+                <View style={styles.chips}>
+                  {locationOptions.map((location) =>
+                    renderChip(location, filters.locations.includes(location), () =>
+                      setFilters({ locations: toggle(filters.locations, location) })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>Identification confidence</Text>
+            {renderConfidenceStepper('At least', 'minConfidence')}
+            {renderConfidenceStepper('At most', 'maxConfidence')}
+
+            <Text style={styles.sectionTitle}>Date added</Text>
+            <View style={styles.dateRow}>
+              {(['addedFrom', 'addedTo'] as DateField[]).map((field) => (
+                <View key={field} style={styles.dateField}>
+                  <Text style={styles.dateLabel}>{field === 'addedFrom' ? 'From' : 'To'}</Text>
+                  <TextInput
+                    style={[styles.input, isDateInvalid(field) && styles.inputInvalid]}
+                    placeholder="YYYY-MM-DD"
+                    value={dates[field]}
+                    onChangeText={handleDate(field)}
+                    keyboardType="numbers-and-punctuation"
+                    autoCorrect={false}
+                    maxLength={10}
+                  />
+                </View>
+              ))}
+            </View>
+            {(isDateInvalid('addedFrom') || isDateInvalid('addedTo')) && (
+              <Text style={styles.fieldError}>Use the format YYYY-MM-DD</Text>
+            )}
+
+            <Text style={styles.sectionTitle}>Photo</Text>
+            <View style={styles.chips}>
+              {PHOTO_OPTIONS.map((option) =>
+                renderChip(option.label, filters.hasPhoto === option.value, () =>
+                  setFilters({ hasPhoto: option.value })
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+              <Text style={styles.resetText}>Clear filters</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    color: '#4CAF50',
+    fontSize: 20,
+    lineHeight: 22,
+  },
+  stepperValue: {
+    fontSize: 16,
+    width: 56,
+    textAlign: 'center',
+  },
+  dateRow: {
+    flexDirection: 'row',
+  },
+  dateField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  dateLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  inputInvalid: {
+    borderColor: '#c62828',
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  resetButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  resetText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  doneButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 5,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  doneText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
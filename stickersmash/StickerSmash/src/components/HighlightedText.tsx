@@ -0,0 +1,44 @@
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+import { MatchRange } from '@/src/utils/plantSearch';
+
+type HighlightedTextProps = {
+  text: string;
+  ranges?: MatchRange[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+};
+
+// Text with search matches picked out; ranges must be sorted and non-overlapping
+export function HighlightedText({ text, ranges = [], style, numberOfLines }: HighlightedTextProps) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push({ text: text.slice(position, start), highlighted: false });
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  });
+  if (position < text.length) parts.push({ text: text.slice(position), highlighted: false });
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <Text key={index} style={styles.highlight}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: '#fff59d',
+    color: '#1b5e20',
+  },
+});
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import { getErrorMessage, resolveImageUri } from '@/src/api/client';
+import { useNotifications } from '@/src/context/NotificationContext';
+import { JournalEntry } from '@/src/types/api';
+import {
+  FieldErrors,
+  JOURNAL_MAX_PHOTOS,
+  JOURNAL_TEXT_MAX_LENGTH,
+  JournalField,
+  toLocalIsoDate,
+  validateJournalEntry,
+} from '@/src/utils/validation';
+
+// What the form hands back; new photos are still local URIs at this point
+export type JournalDraft = {
+  date: string; // YYYY-MM-DD
+  text: string;
+  keptImageUrls: string[];
+  newImageUris: string[];
+};
+
+type JournalEntryFormProps = {
+  entry?: JournalEntry; // Set when editing
+  onSave: (draft: JournalDraft) => Promise<void>;
+  onCancel: () => void;
+};
+
+export function JournalEntryForm({ entry, onSave, onCancel }: JournalEntryFormProps) {
+  const { notify } = useNotifications();
+  const [date, setDate] = useState(toLocalIsoDate(entry ? new Date(entry.date) : new Date()));
+  const [text, setText] = useState(entry?.text || '');
+  const [keptImageUrls, setKeptImageUrls] = useState<string[]>(entry?.image_urls || []);
+  const [newImageUris, setNewImageUris] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<JournalField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const photoCount = keptImageUrls.length + newImageUris.length;
+  const canAddPhotos = photoCount < JOURNAL_MAX_PHOTOS && !saving;
+
+  const addPhotos = (result: ImagePicker.ImagePickerResult) => {
+    if (!result.canceled) {
+      const added = result.assets.map((asset) => asset.uri);
+      setNewImageUris((current) => [...current, ...added].slice(0, JOURNAL_MAX_PHOTOS - keptImageUrls.length));
+    }
+  };
+
+  const pickPhotos = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      notify('warning', 'Sorry, we need camera roll permissions to make this work!');
+      return;
+    }
+
+    addPhotos(
+      await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: JOURNAL_MAX_PHOTOS - photoCount,
+        quality: 1,
+      })
+    );
+  };
+
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      notify('warning', 'Sorry, we need camera permissions to take a photo!');
+      return;
+    }
+
+    try {
+      addPhotos(
+        await ImagePicker.launchCameraAsync({
+          mediaTypes: ImagePicker.MediaTypeOptions.Images,
+          quality: 1,
+        })
+      );
+    } catch (error) {
+      // Simulators and some web browsers have no camera
+      console.error('Camera error:', error);
+      notify('warning', 'The camera is not available on this device. Please choose a photo from your library instead.');
+    }
+  };
+
+  const handleSave = async () => {
+    const errors = validateJournalEntry({ date, text }, photoCount);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ date: date.trim(), text: text.trim(), keptImageUrls, newImageUris });
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+      setFieldErrors({ form: getErrorMessage(error, 'Failed to save journal entry') });
+      setSaving(false);
+    }
+  };
+
+  const renderPhoto = (uri: string, onRemove: () => void) => (
+    <View key={uri} style={styles.photo}>
+      <Image source={{ uri }} style={styles.photoImage} />
+      {!saving && (
+        <TouchableOpacity style={styles.removePhoto} onPress={onRemove}>
+          <Ionicons name="close-circle" size={22} color="#ff5252" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.form}>
+      <Text style={styles.label}>Date</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="YYYY-MM-DD"
+        value={date}
+        onChangeText={setDate}
+        keyboardType="numbers-and-punctuation"
+        autoCorrect={false}
+        maxLength={10}
+        editable={!saving}
+      />
+      {fieldErrors.date && <Text style={styles.fieldError}>{fieldErrors.date}</Text>}
+
+      <TextInput
+        style={[styles.input, styles.textInput]}
+        placeholder="New leaf, repotted, moved to the window..."
+        value={text}
+        onChangeText={setText}
+        maxLength={JOURNAL_TEXT_MAX_LENGTH}
+        multiline
+        textAlignVertical="top"
+        editable={!saving}
+      />
+      {fieldErrors.text && <Text style={styles.fieldError}>{fieldErrors.text}</Text>}
+
+      <View style={styles.photoRow}>
+        {keptImageUrls.map((url) =>
+          renderPhoto(resolveImageUri(url), () => setKeptImageUrls((current) => current.filter((u) => u !== url)))
+        )}
+        {newImageUris.map((uri) =>
+          renderPhoto(uri, () => setNewImageUris((current) => current.filter((u) => u !== uri)))
+        )}
+        {canAddPhotos && (
+          <>
+            <TouchableOpacity style={styles.addPhoto} onPress={takePhoto}>
+              <Ionicons name="camera-outline" size={24} color="#4CAF50" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addPhoto} onPress={pickPhotos}>
+              <Ionicons name="images-outline" size={24} color="#4CAF50" />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {fieldErrors.form && (
+        <View style={styles.formError}>
+          <Text style={styles.formErrorText}>{fieldErrors.form}</Text>
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={saving}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.saveText}>Save</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  textInput: {
+    minHeight: 90,
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  photo: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  photoImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: '#fff',
+    borderRadius: 11,
+  },
+  addPhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  formError: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 12,
+  },
+  formErrorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    marginRight: 10,
+  },
+  cancelText: {
+    color: '#4CAF50',
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 10,
+    paddingHorizontal: 22,
+    borderRadius: 5,
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  saveText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
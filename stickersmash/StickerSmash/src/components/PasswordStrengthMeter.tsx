@@ -0,0 +1,63 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { PASSWORD_RULES, getPasswordStrength } from '@/src/utils/validation';
+
+const SCORE_COLORS = ['#e53935', '#fb8c00', '#fdd835', '#7cb342', '#4CAF50'];
+
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  const { score, label } = getPasswordStrength(password);
+  const color = SCORE_COLORS[score];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bars}>
+        {[0, 1, 2, 3].map((index) => (
+          <View
+            key={index}
+            style={[styles.bar, password.length > 0 && index < Math.max(score, 1) && { backgroundColor: color }]}
+          />
+        ))}
+      </View>
+      {password.length > 0 && <Text style={[styles.label, { color }]}>{label}</Text>}
+
+      {PASSWORD_RULES.map((rule) => {
+        const passed = rule.test(password);
+        return (
+          <Text key={rule.label} style={[styles.rule, passed && styles.rulePassed]}>
+            {passed ? '✓' : '•'} {rule.label}
+          </Text>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  bars: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  bar: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  rule: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  rulePassed: {
+    color: '#4CAF50',
+  },
+});
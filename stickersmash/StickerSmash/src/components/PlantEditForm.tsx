@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { Plant } from '@/src/screens/PlantDetailScreen';
+import { PlantUpdate } from '@/src/types/api';
+import {
+  FieldErrors,
+  PLANT_LOCATION_MAX_LENGTH,
+  PLANT_NAME_MAX_LENGTH,
+  PLANT_NOTES_MAX_LENGTH,
+  PlantEditField,
+  PlantEditValues,
+  getServerFieldErrors,
+  validatePlantEdit,
+} from '@/src/utils/validation';
+
+type PlantEditFormProps = {
+  plant: Plant;
+  onSave: (changes: PlantUpdate) => Promise<void>;
+  onCancel: () => void;
+};
+
+const initialValues = (plant: Plant): PlantEditValues => ({
+  name: plant.name || '',
+  type: plant.type || '',
+  acquiredDate: plant.acquired_date || '',
+  location: plant.location || '',
+  notes: plant.notes || '',
+});
+
+// Only the fields the user actually changed are sent; clearing the date or location sends null
+const getChanges = (plant: Plant, values: PlantEditValues): PlantUpdate => {
+  const changes: PlantUpdate = {};
+  const name = values.name.trim();
+  const type = values.type.trim();
+  const acquired = values.acquiredDate.trim() || null;
+  const location = values.location.trim() || null;
+  const notes = values.notes.trim();
+
+  if (name !== (plant.name || '')) changes.name = name;
+  if (type !== plant.type) changes.type = type;
+  if (acquired !== (plant.acquired_date || null)) changes.acquired_date = acquired;
+  if (location !== (plant.location || null)) changes.location = location;
+  if (notes !== (plant.notes || '')) changes.notes = notes;
+
+  return changes;
+};
+
+export function PlantEditForm({ plant, onSave, onCancel }: PlantEditFormProps) {
+  const [values, setValues] = useState<PlantEditValues>(() => initialValues(plant));
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<PlantEditField>>({});
+  const [saving, setSaving] = useState(false);
+
+  const setValue = (field: PlantEditField) => (text: string) =>
+    setValues((current) => ({ ...current, [field]: text }));
+
+  const handleSave = async () => {
+    const errors = validatePlantEdit(values);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    const changes = getChanges(plant, values);
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(changes);
+    } catch (error) {
+      console.error('Error updating plant:', error);
+      setFieldErrors(
+        getServerFieldErrors(error, 'Failed to update plant', {
+          name: 'name',
+          type: 'type',
+          acquired_date: 'acquiredDate',
+          location: 'location',
+          notes: 'notes',
+        })
+      );
+      setSaving(false);
+    }
+  };
+
+  const renderFieldError = (field: PlantEditField) =>
+    fieldErrors[field] ? <Text style={styles.fieldError}>{fieldErrors[field]}</Text> : null;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Edit Plant</Text>
+
+      <Text style={styles.label}>Nickname</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. Kitchen fern"
+        value={values.name}
+        onChangeText={setValue('name')}
+        maxLength={PLANT_NAME_MAX_LENGTH}
+        editable={!saving}
+      />
+      {renderFieldError('name')}
+
+      <Text style={styles.label}>Species</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Species"
+        value={values.type}
+        onChangeText={setValue('type')}
+        autoCorrect={false}
+        editable={!saving}
+      />
+      {renderFieldError('type')}
+
+      <Text style={styles.label}>Acquired on</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="YYYY-MM-DD"
+        value={values.acquiredDate}
+        onChangeText={setValue('acquiredDate')}
+        keyboardType="numbers-and-punctuation"
+        autoCorrect={false}
+        maxLength={10}
+        editable={!saving}
+      />
+      {renderFieldError('acquiredDate')}
+
+      <Text style={styles.label}>Room / location</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="e.g. Living room"
+        value={values.location}
+        onChangeText={setValue('location')}
+        maxLength={PLANT_LOCATION_MAX_LENGTH}
+        editable={!saving}
+      />
+      {renderFieldError('location')}
+
+      <Text style={styles.label}>Notes</Text>
+      <TextInput
+        style={[styles.input, styles.notesInput]}
+        placeholder="Where it came from, how it's doing..."
+        value={values.notes}
+        onChangeText={setValue('notes')}
+        maxLength={PLANT_NOTES_MAX_LENGTH}
+        multiline
+        textAlignVertical="top"
+        editable={!saving}
+      />
+      {renderFieldError('notes')}
+
+      {fieldErrors.form && (
+        <View style={styles.formError}>
+          <Text style={styles.formErrorText}>{fieldErrors.form}</Text>
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={saving}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.saveText}>Save</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#4CAF50',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  notesInput: {
+    minHeight: 100,
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  formError: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+  },
+  formErrorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    marginRight: 10,
+  },
+  cancelText: {
+    color: '#4CAF50',
+    fontSize: 16,
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 5,
+    minWidth: 90,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  saveText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
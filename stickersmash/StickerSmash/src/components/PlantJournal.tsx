@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import { api, getErrorMessage, isSessionExpiredError, resolveImageUri } from '@/src/api/client';
+import { JournalDraft, JournalEntryForm } from '@/src/components/JournalEntryForm';
+import { useAuth } from '@/src/context/AuthContext';
+import { useNotifications } from '@/src/context/NotificationContext';
+import { loadCachedJournal, saveCachedJournal, sortJournalEntries } from '@/src/storage/plantJournal';
+import { JournalEntry } from '@/src/types/api';
+import { confirmAction } from '@/src/utils/dialogs';
+import { prepareImageForUpload } from '@/src/utils/imageProcessing';
+import { toLocalIsoDate } from '@/src/utils/validation';
+
+// Keep the original time when the day hasn't changed; otherwise use midday so time zones can't shift the day
+const toEntryTimestamp = (date: string, previous?: string) => {
+  const base = previous ? new Date(previous) : new Date();
+  if (toLocalIsoDate(base) === date) {
+    return base.toISOString();
+  }
+  return new Date(`${date}T12:00:00`).toISOString();
+};
+
+const encodePhotos = async (uris: string[]) =>
+  Promise.all(
+    uris.map(async (uri) => (await prepareImageForUpload(uri, { base64: true })).base64 || '')
+  );
+
+export function PlantJournal({ plantId }: { plantId: string }) {
+  const { user } = useAuth();
+  const { notify } = useNotifications();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false); // Showing the cached copy
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  const updateEntries = (next: JournalEntry[]) => {
+    const sorted = sortJournalEntries(next);
+    setEntries(sorted);
+    if (userId) {
+      saveCachedJournal(userId, plantId, sorted);
+    }
+  };
+
+  const fetchJournal = async () => {
+    if (!userId) return;
+    setError(null);
+
+    // Show the cached copy straight away, then replace it with the server's
+    const cached = await loadCachedJournal(userId, plantId);
+    if (cached) {
+      setEntries(cached);
+      setLoading(false);
+    }
+
+    try {
+      updateEntries(await api.listJournal(plantId));
+      setOffline(false);
+    } catch (error) {
+      if (isSessionExpiredError(error)) return;
+      console.error('Error fetching journal:', error);
+      if (cached) {
+        setOffline(true);
+      } else {
+        setError(getErrorMessage(error, 'Failed to load journal'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJournal();
+  }, [plantId, userId]);
+
+  const handleCreate = async (draft: JournalDraft) => {
+    const saved = await api.createJournalEntry(plantId, {
+      date: toEntryTimestamp(draft.date),
+      text: draft.text,
+      images: await encodePhotos(draft.newImageUris),
+    });
+    updateEntries([saved, ...entries]);
+    setAdding(false);
+  };
+
+  const handleUpdate = async (entry: JournalEntry, draft: JournalDraft) => {
+    const saved = await api.updateJournalEntry(plantId, entry._id, {
+      date: toEntryTimestamp(draft.date, entry.date),
+      text: draft.text,
+      image_urls: draft.keptImageUrls,
+      images: await encodePhotos(draft.newImageUris),
+    });
+    updateEntries(entries.map((e) => (e._id === entry._id ? saved : e)));
+    setEditingId(null);
+  };
+
+  const handleDelete = async (entry: JournalEntry) => {
+    const confirmed = await confirmAction({
+      title: 'Delete Entry',
+      message: 'Remove this entry and its photos from the journal?',
+      confirmText: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    try {
+      await api.deleteJournalEntry(plantId, entry._id);
+      updateEntries(entries.filter((e) => e._id !== entry._id));
+    } catch (error) {
+      console.error('Error deleting journal entry:', error);
+      notify('error', getErrorMessage(error, 'Failed to delete journal entry'));
+    }
+  };
+
+  const renderEntry = (entry: JournalEntry, index: number) => {
+    const date = new Date(entry.date);
+    const isLast = index === entries.length - 1;
+
+    return (
+      <View key={entry._id} style={styles.entry}>
+        {/* Timeline rail */}
+        <View style={styles.rail}>
+          <View style={styles.dot} />
+          {!isLast && <View style={styles.line} />}
+        </View>
+
+        <View style={styles.entryBody}>
+          {editingId === entry._id ? (
+            <JournalEntryForm
+              entry={entry}
+              onSave={(draft) => handleUpdate(entry, draft)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              <View style={styles.entryHeader}>
+                <Text style={styles.entryDate}>
+                  {date.toLocaleDateString()} {date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+                {!offline && (
+                  <>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => setEditingId(entry._id)}>
+                      <Ionicons name="create-outline" size={18} color="#4CAF50" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(entry)}>
+                      <Ionicons name="trash-outline" size={18} color="#ff6b6b" />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+              {entry.text ? <Text style={styles.entryText}>{entry.text}</Text> : null}
+              {entry.image_urls?.length > 0 && (
+                <View style={styles.photoRow}>
+                  {entry.image_urls.map((url) => (
+                    <Image key={url} source={{ uri: resolveImageUri(url) }} style={styles.photo} />
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Journal</Text>
+        {!adding && !offline && !loading && !error && (
+          <TouchableOpacity style={styles.addButton} onPress={() => setAdding(true)}>
+            <Ionicons name="add" size={18} color="#fff" />
+            <Text style={styles.addButtonText}>Add Entry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {offline && (
+        <Text style={styles.offlineText}>Showing saved entries. Connect to add or change entries.</Text>
+      )}
+
+      {adding && <JournalEntryForm onSave={handleCreate} onCancel={() => setAdding(false)} />}
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color="#4CAF50" />
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchJournal}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : entries.length === 0 && !adding ? (
+        <Text style={styles.emptyText}>
+          No entries yet. Add notes and photos to see how this plant changes over time.
+        </Text>
+      ) : (
+        entries.map(renderEntry)
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  offlineText: {
+    fontSize: 13,
+    color: '#8d6e00',
+    backgroundColor: '#fff8e1',
+    padding: 8,
+    borderRadius: 5,
+    marginBottom: 12,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#4CAF50',
+    marginTop: 5,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#c8e6c9',
+    marginTop: 2,
+  },
+  entryBody: {
+    flex: 1,
+    paddingLeft: 8,
+    paddingBottom: 16,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryDate: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  iconButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  entryText: {
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#333',
+    marginTop: 4,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  photo: {
+    width: 80,
+    height: 80,
+    borderRadius: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  loadingContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#ffebee',
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  errorText: {
+    color: '#d32f2f',
+    fontSize: 14,
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#d32f2f',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+  },
+  retryText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+});
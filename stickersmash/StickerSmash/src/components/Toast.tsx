@@ -0,0 +1,105 @@
+import { useEffect, useRef } from 'react';
+import { Animated, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+import type { Notification, NotificationType } from '@/src/context/NotificationContext';
+
+const VARIANTS: Record<NotificationType, { color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  success: { color: '#4CAF50', icon: 'checkmark-circle' },
+  info: { color: '#1e88e5', icon: 'information-circle' },
+  warning: { color: '#fb8c00', icon: 'warning' },
+  error: { color: '#e53935', icon: 'alert-circle' },
+};
+
+type ToastProps = {
+  notification: Notification;
+  onAction: () => void;
+  onDismiss: () => void;
+};
+
+export function Toast({ notification, onAction, onDismiss }: ToastProps) {
+  const opacity = useRef(new Animated.Value(0)).current;
+  const { color, icon } = VARIANTS[notification.type];
+
+  useEffect(() => {
+    Animated.timing(opacity, {
+      toValue: 1,
+      duration: 200,
+      // The native driver isn't available on web
+      useNativeDriver: Platform.OS !== 'web',
+    }).start();
+  }, [opacity]);
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        { opacity, transform: [{ translateY: opacity.interpolate({ inputRange: [0, 1], outputRange: [20, 0] }) }] },
+      ]}
+      accessibilityRole="alert"
+    >
+      <TouchableOpacity style={[styles.toast, { borderLeftColor: color }]} activeOpacity={0.9} onPress={onDismiss}>
+        <Ionicons name={icon} size={22} color={color} />
+        <View style={styles.content}>
+          {notification.title && <Text style={styles.title}>{notification.title}</Text>}
+          <Text style={styles.message}>{notification.message}</Text>
+        </View>
+        {notification.action && (
+          <TouchableOpacity style={styles.actionButton} onPress={onAction}>
+            <Text style={[styles.actionText, { color }]}>{notification.action.label.toUpperCase()}</Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    // Sit above the tab bar
+    bottom: 90,
+    alignItems: 'center',
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 500,
+    backgroundColor: '#323232',
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 6,
+  },
+  content: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  message: {
+    color: '#eee',
+    fontSize: 14,
+  },
+  actionButton: {
+    marginLeft: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
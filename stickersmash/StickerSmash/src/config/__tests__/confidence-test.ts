@@ -0,0 +1,25 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import {
+  clampConfidenceThreshold,
+  getConfidenceThreshold,
+  isLowConfidence,
+  loadConfidenceThreshold,
+  setConfidenceThreshold,
+} from '../confidence';
+
+it('keeps thresholds on the stepper grid and within range', () => {
+  expect(clampConfidenceThreshold(0.5 + 0.05 + 0.05)).toBe(0.6);
+  expect(clampConfidenceThreshold(0)).toBe(0.05);
+  expect(clampConfidenceThreshold(1.2)).toBe(0.95);
+});
+
+it('persists the threshold used to flag low-confidence results', async () => {
+  await setConfidenceThreshold(0.7);
+  expect(await loadConfidenceThreshold()).toBe(0.7);
+  expect(getConfidenceThreshold()).toBe(0.7);
+  expect(isLowConfidence(0.65)).toBe(true);
+  expect(isLowConfidence(0.7)).toBe(false);
+});
@@ -0,0 +1,46 @@
+// src/config/confidence.ts - when an identification counts as too uncertain to trust
+import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const THRESHOLD_KEY = 'lowConfidenceThreshold';
+
+export const MIN_CONFIDENCE_THRESHOLD = 0.05;
+export const MAX_CONFIDENCE_THRESHOLD = 0.95;
+export const CONFIDENCE_THRESHOLD_STEP = 0.05;
+
+// Default from app.json `extra.identification.lowConfidenceThreshold`
+export const DEFAULT_CONFIDENCE_THRESHOLD: number =
+  Constants.expoConfig?.extra?.identification?.lowConfidenceThreshold ?? 0.5;
+
+let threshold = DEFAULT_CONFIDENCE_THRESHOLD;
+
+// Keep thresholds on the 5% grid the settings stepper uses
+export const clampConfidenceThreshold = (value: number) => {
+  const rounded = Math.round(value / CONFIDENCE_THRESHOLD_STEP) * CONFIDENCE_THRESHOLD_STEP;
+  const clamped = Math.min(MAX_CONFIDENCE_THRESHOLD, Math.max(MIN_CONFIDENCE_THRESHOLD, rounded));
+  return Number(clamped.toFixed(2));
+};
+
+export const getConfidenceThreshold = () => threshold;
+
+export const isLowConfidence = (confidence: number, limit: number = threshold) => confidence < limit;
+
+// Restore the saved threshold; call once at startup
+export const loadConfidenceThreshold = async () => {
+  try {
+    const stored = await AsyncStorage.getItem(THRESHOLD_KEY);
+    const value = stored !== null ? Number(stored) : NaN;
+    if (!Number.isNaN(value)) {
+      threshold = clampConfidenceThreshold(value);
+    }
+  } catch (error) {
+    console.error('Error loading confidence threshold:', error);
+  }
+  return threshold;
+};
+
+export const setConfidenceThreshold = async (value: number) => {
+  threshold = clampConfidenceThreshold(value);
+  await AsyncStorage.setItem(THRESHOLD_KEY, String(threshold));
+  return threshold;
+};
@@ -0,0 +1,121 @@
+// src/config/environment.ts - which backend the app talks to
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type EnvironmentName = 'dev' | 'staging' | 'prod' | 'custom';
+
+export type EnvironmentConfig = {
+  name: EnvironmentName;
+  apiUrl: string;
+};
+
+type ApiExtra = {
+  defaultEnvironment?: EnvironmentName;
+  environments?: Partial<Record<EnvironmentName, string>>;
+  plantQuery?: boolean;
+};
+
+const ENVIRONMENT_KEY = 'apiEnvironment';
+const CUSTOM_URL_KEY = 'customApiUrl';
+
+const FALLBACK_DEV_URL = 'http://127.0.0.1:8000';
+
+// The Android emulator reaches the host machine through 10.0.2.2 instead of loopback
+const adjustForPlatform = (url: string) => {
+  if (Platform.OS !== 'android') {
+    return url;
+  }
+  return url.replace(/\/\/(127\.0\.0\.1|localhost)(?=[:/]|$)/, '//10.0.2.2');
+};
+
+// Strip trailing slashes so paths can always be appended with a leading '/'
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const apiExtra: ApiExtra = Constants.expoConfig?.extra?.api ?? {};
+
+// Preset environments from app.json `extra.api.environments`; empty entries are not configured
+export const PRESET_ENVIRONMENTS: Record<Exclude<EnvironmentName, 'custom'>, string> = {
+  dev: normalizeUrl(apiExtra.environments?.dev || FALLBACK_DEV_URL),
+  staging: normalizeUrl(apiExtra.environments?.staging || ''),
+  prod: normalizeUrl(apiExtra.environments?.prod || ''),
+};
+
+// Whether GET /api/plants understands sort and filter parameters (app.json `extra.api.plantQuery`)
+export const SUPPORTS_PLANT_QUERY = apiExtra.plantQuery === true;
+
+const DEFAULT_ENVIRONMENT: EnvironmentName =
+  apiExtra.defaultEnvironment && apiExtra.defaultEnvironment !== 'custom'
+    ? apiExtra.defaultEnvironment
+    : 'dev';
+
+let current: EnvironmentConfig = {
+  name: DEFAULT_ENVIRONMENT,
+  apiUrl: adjustForPlatform(PRESET_ENVIRONMENTS[DEFAULT_ENVIRONMENT] || FALLBACK_DEV_URL),
+};
+
+// Last custom URL entered, kept so the settings panel can prefill it
+let customApiUrl = '';
+
+export const isValidApiUrl = (url: string) => /^https?:\/\/[^\s/]+/.test(url.trim());
+
+const resolve = (name: EnvironmentName, customUrl?: string | null): EnvironmentConfig | null => {
+  if (name === 'custom') {
+    if (!customUrl || !isValidApiUrl(customUrl)) return null;
+    return { name, apiUrl: normalizeUrl(customUrl) };
+  }
+
+  const presetUrl = PRESET_ENVIRONMENTS[name];
+  if (!presetUrl) return null;
+  return { name, apiUrl: adjustForPlatform(presetUrl) };
+};
+
+// Base URL for every request
+export const getApiUrl = () => current.apiUrl;
+
+export const getEnvironment = () => current;
+
+export const getCustomApiUrl = () => customApiUrl;
+
+// Restore the persisted choice; call once before the first request
+export const loadEnvironment = async () => {
+  try {
+    const [[, storedName], [, storedUrl]] = await AsyncStorage.multiGet([
+      ENVIRONMENT_KEY,
+      CUSTOM_URL_KEY,
+    ]);
+
+    customApiUrl = storedUrl || '';
+
+    const restored = storedName ? resolve(storedName as EnvironmentName, storedUrl) : null;
+    if (restored) {
+      current = restored;
+    }
+  } catch (error) {
+    console.error('Error loading API environment:', error);
+  }
+
+  console.log('Using API environment:', current);
+  return current;
+};
+
+// Switch servers at runtime and remember the choice
+export const setEnvironment = async (name: EnvironmentName, customUrl?: string) => {
+  const next = resolve(name, customUrl);
+  if (!next) {
+    throw new Error(
+      name === 'custom'
+        ? 'Please enter a valid http(s) URL'
+        : `The ${name} environment is not configured in app.json`
+    );
+  }
+
+  await AsyncStorage.setItem(ENVIRONMENT_KEY, name);
+  if (name === 'custom') {
+    await AsyncStorage.setItem(CUSTOM_URL_KEY, next.apiUrl);
+    customApiUrl = next.apiUrl;
+  }
+
+  current = next;
+  return current;
+};
@@ -0,0 +1,109 @@
+// src/context/AuthContext.tsx - current session shared by every screen
+import React, { createContext, useCallback, useContext, useEffect, useState, PropsWithChildren } from 'react';
+import { api, ApiError, setSessionExpiredHandler } from '../api/client';
+import { clearSession, getTokens, saveTokens } from '../api/tokenStore';
+import { getCredentials, migrateCredentials, setCredential } from '../storage/credentials';
+import { AuthResponse } from '../types/api';
+
+export type AuthStatus = 'loading' | 'signedOut' | 'signedIn';
+
+export type AuthUser = {
+  id: string;
+  username: string;
+};
+
+type AuthContextValue = {
+  status: AuthStatus;
+  user: AuthUser | null;
+  // True when the last session ended because it expired rather than a logout
+  sessionExpired: boolean;
+  signIn: (data: AuthResponse) => Promise<void>;
+  signOut: (options?: { expired?: boolean }) => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider = ({ children }: PropsWithChildren) => {
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
+  const signOut = useCallback(async (options: { expired?: boolean } = {}) => {
+    try {
+      await clearSession();
+    } catch (error) {
+      console.error('Error clearing session:', error);
+    }
+    setUser(null);
+    setSessionExpired(!!options.expired);
+    setStatus('signedOut');
+  }, []);
+
+  const signIn = useCallback(async (data: AuthResponse) => {
+    await saveTokens(data);
+    await setCredential('userId', data._id);
+    await setCredential('username', data.username);
+    setUser({ id: data._id, username: data.username });
+    setSessionExpired(false);
+    setStatus('signedIn');
+  }, []);
+
+  // Restore the stored session and check the token is still accepted
+  useEffect(() => {
+    const restoreSession = async () => {
+      try {
+        await migrateCredentials();
+
+        const tokens = await getTokens();
+        const [userId, username] = await getCredentials(['userId', 'username']);
+
+        if (!tokens || !userId) {
+          setStatus('signedOut');
+          return;
+        }
+
+        try {
+          await api.getMe();
+        } catch (error) {
+          // An expired session has already been signed out by the handler below;
+          // stay signed in if the server is simply unreachable
+          if (error instanceof ApiError && error.kind === 'session') {
+            return;
+          }
+          console.log('Could not validate session, keeping stored credentials:', error);
+        }
+
+        setUser({ id: userId, username: username || '' });
+        setStatus('signedIn');
+      } catch (error) {
+        console.error('Error restoring session:', error);
+        setStatus('signedOut');
+      }
+    };
+
+    restoreSession();
+  }, []);
+
+  // Any request that can't refresh an expired or rejected token returns the user to AuthScreen
+  useEffect(() => {
+    setSessionExpiredHandler(() => {
+      console.log('Session expired, signing out');
+      signOut({ expired: true });
+    });
+    return () => setSessionExpiredHandler(null);
+  }, [signOut]);
+
+  return (
+    <AuthContext.Provider value={{ status, user, sessionExpired, signIn, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,183 @@
+// src/context/CareLogContext.tsx - when each plant was actually watered, fertilized, repotted...
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, PropsWithChildren } from 'react';
+import { api, isOfflineError, isSessionExpiredError } from '../api/client';
+import { useAuth } from './AuthContext';
+import { useOfflineQueue } from './OfflineQueueContext';
+import { CareEventType } from '../types/api';
+import {
+  LoggedCareEvent,
+  createLocalEventId,
+  loadCareLog,
+  mergeCareEvents,
+  saveCareLog,
+  sortCareEvents
+} from '../storage/careLog';
+
+export type CareEventDetails = {
+  date?: string; // ISO timestamp, defaults to now
+  amount?: string | null;
+  note?: string | null;
+};
+
+type CareLogContextValue = {
+  events: LoggedCareEvent[];
+  getPlantEvents: (plantId: string) => LoggedCareEvent[];
+  // Saved locally straight away and uploaded when possible
+  logEvent: (plantId: string, type: CareEventType, details?: CareEventDetails) => Promise<void>;
+  deleteEvent: (event: LoggedCareEvent) => Promise<void>;
+};
+
+const CareLogContext = createContext<CareLogContextValue | null>(null);
+
+export const CareLogProvider = ({ children }: PropsWithChildren) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { isOnline } = useOfflineQueue();
+
+  const [events, setEvents] = useState<LoggedCareEvent[]>([]);
+  const eventsRef = useRef<LoggedCareEvent[]>([]);
+  const syncingRef = useRef<object | null>(null); // The sync currently running, if any
+  const resyncRef = useRef(false); // Something was logged while a sync was running
+  // Who is signed in now, so a sync started for an earlier account can tell it's stale
+  const userIdRef = useRef(userId);
+
+  const isCurrentUser = (id: string | null) => userIdRef.current === id;
+
+  const updateEvents = useCallback(
+    async (update: (current: LoggedCareEvent[]) => LoggedCareEvent[]) => {
+      // Uploads that finish after a sign-out are recorded in that user's stored log, never in
+      // the list on screen, which now belongs to someone else
+      if (!isCurrentUser(userId)) {
+        if (userId) {
+          const stored = await loadCareLog(userId);
+          await saveCareLog(userId, sortCareEvents(update(stored))).catch((error) =>
+            console.error('Error saving care log:', error)
+          );
+        }
+        return;
+      }
+
+      const next = sortCareEvents(update(eventsRef.current));
+      eventsRef.current = next;
+      setEvents(next);
+      if (userId) {
+        await saveCareLog(userId, next).catch((error) => console.error('Error saving care log:', error));
+      }
+    },
+    [userId]
+  );
+
+  // Upload events logged while offline, then take the server's list as the truth
+  const sync = async () => {
+    if (!userId || !isCurrentUser(userId)) return;
+    if (syncingRef.current) {
+      resyncRef.current = true;
+      return;
+    }
+    const run = {};
+    syncingRef.current = run;
+    resyncRef.current = false;
+
+    try {
+      for (const event of eventsRef.current.filter((e) => e.pending)) {
+        const { _id, pending, plant_id, ...body } = event;
+        try {
+          const saved = await api.createCareEvent(plant_id, body);
+          await updateEvents((current) => current.map((e) => (e._id === _id ? saved : e)));
+        } catch (error) {
+          if (isOfflineError(error) || isSessionExpiredError(error)) throw error;
+          // Refused (e.g. the plant has been deleted), so retrying won't help
+          console.error('Dropping care event the server refused:', error);
+          await updateEvents((current) => current.filter((e) => e._id !== _id));
+        }
+        if (!isCurrentUser(userId)) return;
+      }
+
+      const server = await api.listCareEvents();
+      // Another account's events must never be merged into this one's
+      if (!isCurrentUser(userId)) return;
+      await updateEvents((current) => mergeCareEvents(server, current));
+    } catch (error) {
+      if (!isOfflineError(error) && !isSessionExpiredError(error)) {
+        console.error('Error syncing care log:', error);
+      }
+      resyncRef.current = false;
+    } finally {
+      // A sign-out may already have handed syncing over to the next account
+      if (syncingRef.current === run) {
+        syncingRef.current = null;
+      }
+    }
+
+    if (resyncRef.current && isCurrentUser(userId)) {
+      sync();
+    }
+  };
+
+  // Show the cached log at once, then catch up with the server
+  useEffect(() => {
+    userIdRef.current = userId;
+    eventsRef.current = [];
+    syncingRef.current = null;
+    resyncRef.current = false;
+    setEvents([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    loadCareLog(userId).then((stored) => {
+      if (cancelled) return;
+      eventsRef.current = stored;
+      setEvents(stored);
+      sync();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Upload anything logged offline once the connection is back
+  useEffect(() => {
+    if (isOnline && eventsRef.current.some((event) => event.pending)) {
+      sync();
+    }
+  }, [isOnline]);
+
+  const getPlantEvents = (plantId: string) => events.filter((event) => event.plant_id === plantId);
+
+  const logEvent = async (plantId: string, type: CareEventType, details: CareEventDetails = {}) => {
+    const event: LoggedCareEvent = {
+      _id: createLocalEventId(),
+      plant_id: plantId,
+      type,
+      date: details.date || new Date().toISOString(),
+      amount: details.amount || null,
+      note: details.note || null,
+      pending: true,
+    };
+    await updateEvents((current) => [event, ...current]);
+    sync();
+  };
+
+  const deleteEvent = async (event: LoggedCareEvent) => {
+    if (!event.pending) {
+      // Throws (and leaves the event in place) if the server can't be reached
+      await api.deleteCareEvent(event.plant_id, event._id);
+    }
+    await updateEvents((current) => current.filter((e) => e._id !== event._id));
+  };
+
+  return (
+    <CareLogContext.Provider value={{ events, getPlantEvents, logEvent, deleteEvent }}>
+      {children}
+    </CareLogContext.Provider>
+  );
+};
+
+export const useCareLog = () => {
+  const context = useContext(CareLogContext);
+  if (!context) {
+    throw new Error('useCareLog must be used inside a CareLogProvider');
+  }
+  return context;
+};
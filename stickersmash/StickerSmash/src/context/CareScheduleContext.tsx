@@ -0,0 +1,199 @@
+// src/context/CareScheduleContext.tsx - watering/fertilizing/misting tasks for every plant, with reminders
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, PropsWithChildren } from 'react';
+import { api, isOfflineError, isSessionExpiredError } from '../api/client';
+import { useAuth } from './AuthContext';
+import { usePlantCollection } from './PlantCollectionContext';
+import { CareEventDetails, useCareLog } from './CareLogContext';
+import { CareInfo, Plant } from '../screens/PlantDetailScreen';
+import { CareTaskType, suggestCareIntervals } from '../utils/careFrequency';
+import { clearCareReminders, syncCareReminders } from '../utils/careReminders';
+import {
+  CareTask,
+  careTaskId,
+  completeTask,
+  loadCareTasks,
+  overrideTaskInterval,
+  saveCareTasks,
+  snoozeTask,
+  syncPlantTasks
+} from '../storage/careSchedule';
+
+type CareScheduleContextValue = {
+  tasks: CareTask[];
+  loading: boolean;
+  getPlantTasks: (plantId: string) => CareTask[];
+  // Call with fresh care info (e.g. after the species changed) to update the suggested intervals
+  syncPlant: (plant: Plant, careInfo: CareInfo | null) => Promise<void>;
+  // Logs a care event; the task is rescheduled from it
+  markDone: (taskId: string, details?: CareEventDetails) => Promise<void>;
+  snooze: (taskId: string, days?: number) => Promise<void>;
+  setIntervalOverride: (taskId: string, days: number | null) => Promise<void>;
+};
+
+const CareScheduleContext = createContext<CareScheduleContextValue | null>(null);
+
+export const CareScheduleProvider = ({ children }: PropsWithChildren) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { plants, loading: plantsLoading, error: plantsError, isPendingDeletion } = usePlantCollection();
+  const { events, logEvent } = useCareLog();
+
+  const [tasks, setTasks] = useState<CareTask[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Updates can arrive from several places at once, so always build on the latest list
+  const tasksRef = useRef<CareTask[]>([]);
+  // Plants whose species care info has already been requested this session
+  const requestedRef = useRef(new Set<string>());
+
+  const updateTasks = useCallback(
+    async (update: (current: CareTask[]) => CareTask[]) => {
+      const next = update(tasksRef.current);
+      tasksRef.current = next;
+      setTasks(next);
+      if (userId) {
+        await saveCareTasks(userId, next).catch((error) =>
+          console.error('Error saving care schedule:', error)
+        );
+      }
+      await syncCareReminders(next);
+    },
+    [userId]
+  );
+
+  const patchTask = (taskId: string, change: (task: CareTask) => CareTask) =>
+    updateTasks((current) => current.map((task) => (task.id === taskId ? change(task) : task)));
+
+  const syncPlant = (plant: Plant, careInfo: CareInfo | null) =>
+    updateTasks((current) => syncPlantTasks(current, plant, suggestCareIntervals(careInfo)));
+
+  // Look up care info for plants that don't have a schedule yet
+  const scheduleNewPlant = async (plant: Plant) => {
+    requestedRef.current.add(plant._id);
+    let careInfo: CareInfo | null = null;
+
+    try {
+      careInfo = await api.getSpecies(plant.type);
+    } catch (error) {
+      // Try again later rather than falling back to defaults just because we're offline
+      if (isOfflineError(error) || isSessionExpiredError(error)) {
+        requestedRef.current.delete(plant._id);
+        return;
+      }
+      console.log(`No care info for ${plant.type}, using default intervals`);
+    }
+
+    await syncPlant(plant, careInfo);
+  };
+
+  // Load the signed-in user's schedule; reminders belong to one account, so clear them on sign-out
+  useEffect(() => {
+    tasksRef.current = [];
+    requestedRef.current.clear();
+    setTasks([]);
+    setLoading(true);
+
+    if (!userId) {
+      clearCareReminders();
+      return;
+    }
+
+    let cancelled = false;
+    loadCareTasks(userId).then((stored) => {
+      if (cancelled) return;
+      tasksRef.current = stored;
+      setTasks(stored);
+      setLoading(false);
+      syncCareReminders(stored);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Follow the collection: schedule new plants and drop tasks for deleted ones
+  useEffect(() => {
+    if (loading || plantsLoading || plantsError) return;
+
+    const plantIds = new Set(plants.map((plant) => plant._id));
+    const scheduled = new Set(tasksRef.current.map((task) => task.plantId));
+
+    const orphaned = tasksRef.current.filter(
+      (task) => !plantIds.has(task.plantId) && !isPendingDeletion(task.plantId)
+    );
+    // Reminders name the plant, so follow nickname edits too
+    const names = new Map(plants.map((plant) => [plant._id, plant.name || plant.type]));
+    const renamed = tasksRef.current.some(
+      (task) => names.has(task.plantId) && names.get(task.plantId) !== task.plantName
+    );
+
+    if (orphaned.length > 0 || renamed) {
+      updateTasks((current) =>
+        current
+          .filter((task) => !orphaned.includes(task))
+          .map((task) => (names.has(task.plantId) ? { ...task, plantName: names.get(task.plantId)! } : task))
+      );
+    }
+
+    plants
+      .filter((plant) => !scheduled.has(plant._id) && !requestedRef.current.has(plant._id))
+      .forEach(scheduleNewPlant);
+  }, [plants, plantsLoading, plantsError, loading]);
+
+  // Each task counts from the latest matching care event, wherever it was logged (also catches
+  // up tasks created after their plant already had events)
+  useEffect(() => {
+    if (loading) return;
+
+    const latest = new Map<string, string>();
+    events.forEach((event) => {
+      const id = careTaskId(event.plant_id, event.type as CareTaskType);
+      const current = latest.get(id);
+      if (!current || new Date(event.date) > new Date(current)) {
+        latest.set(id, event.date);
+      }
+    });
+
+    const isBehind = (task: CareTask) => {
+      const date = latest.get(task.id);
+      return !!date && (!task.lastDoneAt || new Date(date) > new Date(task.lastDoneAt));
+    };
+
+    if (tasksRef.current.some(isBehind)) {
+      updateTasks((current) =>
+        current.map((task) => (isBehind(task) ? completeTask(task, new Date(latest.get(task.id)!)) : task))
+      );
+    }
+  }, [events, tasks, loading]);
+
+  const getPlantTasks = (plantId: string) => tasks.filter((task) => task.plantId === plantId);
+
+  const markDone = async (taskId: string, details?: CareEventDetails) => {
+    const task = tasksRef.current.find((t) => t.id === taskId);
+    if (task) {
+      await logEvent(task.plantId, task.type, details);
+    }
+  };
+
+  const snooze = (taskId: string, days?: number) => patchTask(taskId, (task) => snoozeTask(task, days));
+
+  const setIntervalOverride = (taskId: string, days: number | null) =>
+    patchTask(taskId, (task) => overrideTaskInterval(task, days));
+
+  return (
+    <CareScheduleContext.Provider
+      value={{ tasks, loading, getPlantTasks, syncPlant, markDone, snooze, setIntervalOverride }}
+    >
+      {children}
+    </CareScheduleContext.Provider>
+  );
+};
+
+export const useCareSchedule = () => {
+  const context = useContext(CareScheduleContext);
+  if (!context) {
+    throw new Error('useCareSchedule must be used inside a CareScheduleProvider');
+  }
+  return context;
+};
@@ -0,0 +1,140 @@
+// src/context/NotificationContext.tsx - in-app toasts shared by every screen
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, PropsWithChildren } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Toast } from '../components/Toast';
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export type NotificationAction = {
+  label: string;
+  onPress: () => void;
+};
+
+export type NotificationOptions = {
+  title?: string;
+  action?: NotificationAction;
+  duration?: number; // ms; defaults depend on the type
+};
+
+export type Notification = NotificationOptions & {
+  id: number;
+  type: NotificationType;
+  message: string;
+};
+
+type NotificationContextValue = {
+  notify: (type: NotificationType, message: string, options?: NotificationOptions) => void;
+  dismiss: () => void;
+};
+
+// Problems stay up longer than confirmations, and anything with a button longer still
+const DEFAULT_DURATIONS: Record<NotificationType, number> = {
+  success: 3000,
+  info: 3000,
+  warning: 5000,
+  error: 5000,
+};
+const ACTION_DURATION = 6000;
+
+const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+// Toasts with a button are never replaced, so the button can't disappear while it still matters;
+// whatever arrives meanwhile waits its turn. A queued button is only offered until `deadline`.
+type QueuedNotification = Notification & { duration: number; deadline: number | null };
+
+export const NotificationProvider = ({ children }: PropsWithChildren) => {
+  // One toast at a time; a new one replaces whatever is showing unless that has a button
+  const [current, setCurrent] = useState<Notification | null>(null);
+  const currentRef = useRef<QueuedNotification | null>(null);
+  const queueRef = useRef<QueuedNotification[]>([]);
+  const nextId = useRef(1);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const show = (notification: QueuedNotification | null) => {
+    clearTimer();
+    currentRef.current = notification;
+    setCurrent(notification);
+
+    if (notification) {
+      const duration = notification.deadline ? notification.deadline - Date.now() : notification.duration;
+      timerRef.current = setTimeout(showNext, duration);
+    }
+  };
+
+  // Buttons that ran out while waiting are skipped, e.g. an Undo whose deletion has been sent
+  const showNext = () => {
+    const queue = queueRef.current;
+    while (queue.length > 0 && queue[0].deadline !== null && queue[0].deadline <= Date.now()) {
+      queue.shift();
+    }
+    show(queue.shift() ?? null);
+  };
+
+  const dismiss = useCallback(() => showNext(), []);
+
+  const notify = useCallback(
+    (type: NotificationType, message: string, options: NotificationOptions = {}) => {
+      const duration = options.duration ?? (options.action ? ACTION_DURATION : DEFAULT_DURATIONS[type]);
+      const notification: QueuedNotification = {
+        ...options,
+        id: nextId.current++,
+        type,
+        message,
+        duration,
+        deadline: options.action ? Date.now() + duration : null,
+      };
+
+      if (currentRef.current?.action) {
+        queueRef.current.push(notification);
+      } else {
+        show(notification);
+      }
+    },
+    []
+  );
+
+  useEffect(() => clearTimer, []);
+
+  const handleAction = () => {
+    const action = current?.action;
+    dismiss();
+    action?.onPress();
+  };
+
+  return (
+    <NotificationContext.Provider value={{ notify, dismiss }}>
+      <View style={styles.container}>
+        {children}
+        {current && (
+          <Toast
+            key={current.id}
+            notification={current}
+            onAction={handleAction}
+            onDismiss={dismiss}
+          />
+        )}
+      </View>
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used inside a NotificationProvider');
+  }
+  return context;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,279 @@
+// src/context/OfflineQueueContext.tsx - replays queued work when the device is back online
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, PropsWithChildren } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { api, getErrorMessage, isOfflineError, isSessionExpiredError } from '../api/client';
+import { useAuth } from './AuthContext';
+import { NewPlant } from '../types/api';
+import { mergeIdentificationResults } from '../utils/identification';
+import {
+  PendingItem,
+  createPendingId,
+  deletePendingImages,
+  getRetryDelay,
+  loadQueue,
+  persistPendingImage,
+  readPendingImage,
+  saveQueue
+} from '../storage/offlineQueue';
+
+type OfflineQueueContextValue = {
+  items: PendingItem[];
+  isOnline: boolean;
+  // Bumped after each queued save reaches the server so the collection can refresh
+  syncedCount: number;
+  enqueueIdentification: (imageUris: string[]) => Promise<void>;
+  enqueueSave: (plant: Omit<NewPlant, 'image_data'>, imageUri: string | null) => Promise<void>;
+  retryItem: (id: string) => void;
+  removeItem: (id: string) => Promise<void>;
+};
+
+const OfflineQueueContext = createContext<OfflineQueueContextValue | null>(null);
+
+export const OfflineQueueProvider = ({ children }: PropsWithChildren) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const [items, setItems] = useState<PendingItem[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [syncedCount, setSyncedCount] = useState(0);
+
+  // Replay runs outside React's render cycle, so it works from refs
+  const itemsRef = useRef<PendingItem[]>([]);
+  const onlineRef = useRef(true);
+  // The replay currently running, if any
+  const processingRef = useRef<object | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Who is signed in now, so work started for an earlier account can tell it's stale
+  const userIdRef = useRef(userId);
+
+  const isCurrentUser = (id: string | null) => userIdRef.current === id;
+
+  const updateItems = useCallback(
+    async (update: (current: PendingItem[]) => PendingItem[]) => {
+      // A replay that outlived its sign-in finishes against that user's stored queue, never
+      // the one on screen (which belongs to someone else, or is empty after sign-out)
+      if (!isCurrentUser(userId)) {
+        if (userId) {
+          await saveQueue(userId, update(await loadQueue(userId))).catch((error) =>
+            console.error('Error saving offline queue:', error)
+          );
+        }
+        return;
+      }
+
+      const next = update(itemsRef.current);
+      itemsRef.current = next;
+      setItems(next);
+      if (userId) {
+        await saveQueue(userId, next).catch((error) =>
+          console.error('Error saving offline queue:', error)
+        );
+      }
+    },
+    [userId]
+  );
+
+  const patchItem = (id: string, patch: Partial<PendingItem>) =>
+    updateItems((current) =>
+      current.map((item) => (item.id === id ? ({ ...item, ...patch } as PendingItem) : item))
+    );
+
+  // Upload one item; returns false if replay should stop for now
+  const replayItem = async (item: PendingItem): Promise<boolean> => {
+    try {
+      if (item.kind === 'identify') {
+        const results = [];
+        for (const uri of item.imageUris) {
+          results.push(await api.identify(uri));
+        }
+        const result = mergeIdentificationResults(results, item.imageUris);
+        console.log('Queued identification finished:', result.plant_type);
+        await patchItem(item.id, { status: 'identified', result, lastError: undefined });
+      } else {
+        const imageData = item.imageUri ? await readPendingImage(item.imageUri) : '';
+        await api.createPlant({ ...item.plant, image_data: imageData });
+        console.log('Queued plant saved:', item.plant.name);
+        await updateItems((current) => current.filter((i) => i.id !== item.id));
+        await deletePendingImages(item);
+        if (isCurrentUser(userId)) {
+          setSyncedCount((count) => count + 1);
+        }
+      }
+      // Signed out (or switched account) while uploading; stop here
+      return isCurrentUser(userId);
+    } catch (error) {
+      // Signing out is handled globally; try again after the next sign-in
+      if (isSessionExpiredError(error)) {
+        return false;
+      }
+
+      const attempts = item.attempts + 1;
+      if (isOfflineError(error)) {
+        const delay = getRetryDelay(attempts);
+        console.log(`Queued ${item.kind} still offline, retrying in ${delay / 1000}s`);
+        await patchItem(item.id, {
+          attempts,
+          nextAttemptAt: Date.now() + delay,
+          lastError: getErrorMessage(error, 'Network error'),
+        });
+        return false;
+      }
+
+      // The server answered but refused it; retrying won't help until the user steps in
+      console.error(`Queued ${item.kind} failed:`, error);
+      await patchItem(item.id, {
+        attempts,
+        status: 'failed',
+        lastError: getErrorMessage(error, 'Upload failed'),
+      });
+      return true;
+    }
+  };
+
+  const scheduleNextRun = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const waiting = itemsRef.current.filter((item) => item.status === 'pending');
+    if (!onlineRef.current || waiting.length === 0) return;
+
+    const nextAt = Math.min(...waiting.map((item) => item.nextAttemptAt));
+    timerRef.current = setTimeout(() => {
+      processQueue();
+    }, Math.max(nextAt - Date.now(), 0));
+  };
+
+  const processQueue = async () => {
+    if (processingRef.current || !onlineRef.current || !userId || !isCurrentUser(userId)) return;
+    const run = {};
+    processingRef.current = run;
+
+    try {
+      const due = itemsRef.current.filter(
+        (item) => item.status === 'pending' && item.nextAttemptAt <= Date.now()
+      );
+      for (const item of due) {
+        const keepGoing = await replayItem(item);
+        if (!keepGoing || !isCurrentUser(userId)) break;
+      }
+    } finally {
+      // A sign-out may already have handed the queue to a newer run
+      if (processingRef.current === run) {
+        processingRef.current = null;
+      }
+      if (isCurrentUser(userId)) {
+        scheduleNextRun();
+      }
+    }
+  };
+
+  // Load the signed-in user's queue and start replaying it
+  useEffect(() => {
+    userIdRef.current = userId;
+    itemsRef.current = [];
+    processingRef.current = null;
+    setItems([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    loadQueue(userId).then((stored) => {
+      if (cancelled) return;
+      itemsRef.current = stored;
+      setItems(stored);
+      processQueue();
+    });
+
+    return () => {
+      cancelled = true;
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [userId]);
+
+  // Coming back online retries everything straight away instead of waiting out the backoff
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const online = state.isConnected !== false && state.isInternetReachable !== false;
+      const reconnected = online && !onlineRef.current;
+      onlineRef.current = online;
+      setIsOnline(online);
+
+      if (reconnected) {
+        console.log('Back online, replaying offline queue');
+        updateItems((current) =>
+          current.map((item) => (item.status === 'pending' ? { ...item, nextAttemptAt: Date.now() } : item))
+        ).then(processQueue);
+      } else if (!online) {
+        scheduleNextRun();
+      }
+    });
+    return unsubscribe;
+  }, [updateItems]);
+
+  const enqueue = async (item: PendingItem) => {
+    await updateItems((current) => [...current, item]);
+    scheduleNextRun();
+  };
+
+  const enqueueIdentification = async (imageUris: string[]) => {
+    const id = createPendingId();
+    const persisted = await Promise.all(
+      imageUris.map((uri, index) => persistPendingImage(uri, `${id}-${index}`))
+    );
+    await enqueue({
+      id,
+      kind: 'identify',
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now() + getRetryDelay(1),
+      imageUris: persisted,
+    });
+  };
+
+  const enqueueSave = async (plant: Omit<NewPlant, 'image_data'>, imageUri: string | null) => {
+    const id = createPendingId();
+    await enqueue({
+      id,
+      kind: 'save',
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now() + getRetryDelay(1),
+      imageUri: imageUri ? await persistPendingImage(imageUri, id) : null,
+      plant,
+    });
+  };
+
+  const retryItem = (id: string) => {
+    patchItem(id, { status: 'pending', nextAttemptAt: Date.now() }).then(processQueue);
+  };
+
+  const removeItem = async (id: string) => {
+    const item = itemsRef.current.find((i) => i.id === id);
+    await updateItems((current) => current.filter((i) => i.id !== id));
+    if (item) {
+      await deletePendingImages(item);
+    }
+  };
+
+  return (
+    <OfflineQueueContext.Provider
+      value={{ items, isOnline, syncedCount, enqueueIdentification, enqueueSave, retryItem, removeItem }}
+    >
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+};
+
+export const useOfflineQueue = () => {
+  const context = useContext(OfflineQueueContext);
+  if (!context) {
+    throw new Error('useOfflineQueue must be used inside an OfflineQueueProvider');
+  }
+  return context;
+};
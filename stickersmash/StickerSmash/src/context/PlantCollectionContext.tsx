@@ -0,0 +1,178 @@
+// src/context/PlantCollectionContext.tsx - the user's plants, shared so edits show up everywhere
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, PropsWithChildren } from 'react';
+import { api, getErrorMessage, isSessionExpiredError } from '../api/client';
+import { useAuth } from './AuthContext';
+import { useNotifications } from './NotificationContext';
+import { Plant } from '../screens/PlantDetailScreen';
+import { PlantUpdate } from '../types/api';
+import { clearCachedJournal } from '../storage/plantJournal';
+
+// How long the Undo button is offered before the DELETE is actually sent
+export const UNDO_WINDOW_MS = 5000;
+
+type PendingDeletion = {
+  plant: Plant;
+  index: number; // Position to restore it to
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type PlantCollectionContextValue = {
+  plants: Plant[];
+  loading: boolean;
+  error: string | null;
+  fetchPlants: () => Promise<void>;
+  addPlant: (plant: Plant) => void;
+  updatePlant: (plantId: string, changes: PlantUpdate) => Promise<Plant>;
+  deletePlant: (plant: Plant) => void;
+  // True while a deleted plant can still be restored with Undo
+  isPendingDeletion: (plantId: string) => boolean;
+};
+
+const PlantCollectionContext = createContext<PlantCollectionContextValue | null>(null);
+
+export const PlantCollectionProvider = ({ children }: PropsWithChildren) => {
+  const { user } = useAuth();
+  const { notify } = useNotifications();
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const pendingDeletions = useRef(new Map<string, PendingDeletion>());
+  // Latest list for async work that outlives the render it started in
+  const plantsRef = useRef(plants);
+  plantsRef.current = plants;
+
+  const fetchPlants = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await api.listPlants();
+      // A refresh during the undo window mustn't bring a deleted plant back
+      setPlants(data.filter((plant) => !pendingDeletions.current.has(plant._id)));
+      console.log(`Loaded ${data.length} plants`);
+    } catch (error) {
+      // The app returns to the login screen on its own, so don't flash a load error first
+      if (isSessionExpiredError(error)) {
+        return;
+      }
+      console.error('Error fetching plants:', error);
+      setError(`Failed to load plants: ${getErrorMessage(error, 'Unknown error')}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // A plant just created elsewhere (IdentifyScreen), newest first like the server's list
+  const addPlant = (plant: Plant) => {
+    setPlants((current) => [plant, ...current.filter((p) => p._id !== plant._id)]);
+  };
+
+  // Save edits and swap the new version into the list, so screens showing it don't need a refetch
+  // The plant as last loaded, reloading the collection if it isn't there (e.g. still loading)
+  const findPlant = async (plantId: string) => {
+    const existing =
+      plantsRef.current.find((p) => p._id === plantId) ??
+      (await api.listPlants()).find((p) => p._id === plantId);
+    if (!existing) {
+      throw new Error('This plant is no longer in your collection');
+    }
+    return existing;
+  };
+
+  const updatePlant = async (plantId: string, changes: PlantUpdate) => {
+    const saved = await api.updatePlant(plantId, changes);
+    // Fall back to merging the changes if the server doesn't echo the plant back
+    const updated: Plant = saved && saved._id ? saved : { ...(await findPlant(plantId)), ...changes };
+
+    setPlants((current) => current.map((p) => (p._id === plantId ? updated : p)));
+    return updated;
+  };
+
+  const restorePlant = (pending: PendingDeletion) => {
+    setPlants((current) => {
+      if (current.some((plant) => plant._id === pending.plant._id)) return current;
+      const next = [...current];
+      next.splice(Math.min(pending.index, next.length), 0, pending.plant);
+      return next;
+    });
+  };
+
+  const commitDeletion = async (plantId: string) => {
+    const pending = pendingDeletions.current.get(plantId);
+    if (!pending) return;
+
+    try {
+      await api.deletePlant(plantId);
+      console.log('Plant deleted:', plantId);
+      if (user) {
+        clearCachedJournal(user.id, plantId).catch(() => {});
+      }
+    } catch (error) {
+      console.error('Error deleting plant:', error);
+      restorePlant(pending);
+      notify('error', getErrorMessage(error, 'Failed to delete plant'), {
+        title: `Couldn't delete ${pending.plant.name || pending.plant.type}`,
+      });
+    } finally {
+      pendingDeletions.current.delete(plantId);
+    }
+  };
+
+  const undoDeletion = (plantId: string) => {
+    const pending = pendingDeletions.current.get(plantId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    pendingDeletions.current.delete(plantId);
+    restorePlant(pending);
+  };
+
+  // Remove the plant straight away and only tell the server once the undo window has passed
+  const deletePlant = (plant: Plant) => {
+    if (pendingDeletions.current.has(plant._id)) return;
+
+    const index = plants.findIndex((p) => p._id === plant._id);
+    setPlants((current) => current.filter((p) => p._id !== plant._id));
+
+    pendingDeletions.current.set(plant._id, {
+      plant,
+      index: index === -1 ? plants.length : index,
+      timer: setTimeout(() => commitDeletion(plant._id), UNDO_WINDOW_MS),
+    });
+
+    notify('info', `${plant.name || plant.type} was removed from your collection`, {
+      action: { label: 'Undo', onPress: () => undoDeletion(plant._id) },
+      duration: UNDO_WINDOW_MS,
+    });
+  };
+
+  const isPendingDeletion = (plantId: string) => pendingDeletions.current.has(plantId);
+
+  // Start over for each account. The tokens are already gone by the time a sign-out gets here,
+  // so deletions still inside their undo window are dropped rather than sent.
+  useEffect(() => {
+    setPlants([]);
+    setLoading(true);
+    setError(null);
+
+    const pending = pendingDeletions.current;
+    return () => {
+      pending.forEach((deletion) => clearTimeout(deletion.timer));
+      pending.clear();
+    };
+  }, [user?.id]);
+
+  return (
+    <PlantCollectionContext.Provider
+      value={{ plants, loading, error, fetchPlants, addPlant, updatePlant, deletePlant, isPendingDeletion }}
+    >
+      {children}
+    </PlantCollectionContext.Provider>
+  );
+};
+
+export const usePlantCollection = () => {
+  const context = useContext(PlantCollectionContext);
+  if (!context) {
+    throw new Error('usePlantCollection must be used inside a PlantCollectionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,72 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { api } from '../../api/client';
+import { loadCareLog } from '../../storage/careLog';
+import { CareLogProvider, useCareLog } from '../CareLogContext';
+
+let mockUser: { id: string; username: string } | null = { id: 'user-a', username: 'ann' };
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+jest.mock('../OfflineQueueContext', () => ({
+  useOfflineQueue: () => ({ isOnline: true }),
+}));
+jest.mock('../../api/client', () => ({
+  ...jest.requireActual('../../api/client'),
+  api: { listCareEvents: jest.fn(), createCareEvent: jest.fn(), deleteCareEvent: jest.fn() },
+}));
+
+const eventFor = (id: string, plantId: string) => ({
+  _id: id,
+  plant_id: plantId,
+  type: 'water' as const,
+  date: '2024-05-01T09:00:00.000Z',
+  amount: null,
+  note: null,
+});
+
+let careLog: ReturnType<typeof useCareLog>;
+const Probe = () => {
+  careLog = useCareLog();
+  return null;
+};
+
+const tree = () => (
+  <CareLogProvider>
+    <Probe />
+  </CareLogProvider>
+);
+
+it("keeps one account's events out of the next account's log", async () => {
+  let finishSyncA: () => void = () => {};
+  (api.listCareEvents as jest.Mock)
+    .mockImplementationOnce(
+      () => new Promise((resolve) => { finishSyncA = () => resolve([eventFor('a1', 'plant-a')]); })
+    )
+    .mockResolvedValueOnce([eventFor('b1', 'plant-b')]);
+
+  let root: renderer.ReactTestRenderer;
+  await act(async () => {
+    root = renderer.create(tree());
+  });
+  expect(api.listCareEvents).toHaveBeenCalledTimes(1);
+
+  // Switch accounts while A's sync is still waiting on the server
+  mockUser = { id: 'user-b', username: 'ben' };
+  await act(async () => {
+    root.update(tree());
+  });
+  await act(async () => finishSyncA());
+
+  expect(api.listCareEvents).toHaveBeenCalledTimes(2);
+  expect(careLog.events.map((event) => event._id)).toEqual(['b1']);
+  expect((await loadCareLog('user-b')).map((event) => event._id)).toEqual(['b1']);
+  expect(await loadCareLog('user-a')).toEqual([]);
+
+  act(() => root.unmount());
+});
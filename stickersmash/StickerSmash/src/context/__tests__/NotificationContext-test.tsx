@@ -0,0 +1,79 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { Toast } from '../../components/Toast';
+import { NotificationProvider, useNotifications } from '../NotificationContext';
+
+const UNDO_WINDOW_MS = 5000;
+
+let notifications: ReturnType<typeof useNotifications>;
+const Probe = () => {
+  notifications = useNotifications();
+  return null;
+};
+
+let tree: renderer.ReactTestRenderer;
+
+const shownToast = () => tree.root.findAllByType(Toast)[0]?.props;
+
+const notifyUndo = (name: string, onUndo: () => void) =>
+  act(() =>
+    notifications.notify('info', `${name} was removed from your collection`, {
+      action: { label: 'Undo', onPress: onUndo },
+      duration: UNDO_WINDOW_MS,
+    })
+  );
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  act(() => {
+    tree = renderer.create(
+      <NotificationProvider>
+        <Probe />
+      </NotificationProvider>
+    );
+  });
+});
+
+afterEach(() => {
+  act(() => tree.unmount());
+  jest.useRealTimers();
+});
+
+it('replaces a toast that has no button', () => {
+  act(() => notifications.notify('success', 'Plant saved'));
+  act(() => notifications.notify('error', 'Sync failed'));
+
+  expect(shownToast().notification.message).toBe('Sync failed');
+});
+
+it("keeps the first plant's Undo when another toast arrives during its window", () => {
+  const undoAloe = jest.fn();
+  const undoBasil = jest.fn();
+  notifyUndo('Aloe', undoAloe);
+
+  act(() => jest.advanceTimersByTime(2000));
+  notifyUndo('Basil', undoBasil);
+  act(() => notifications.notify('success', 'Plant saved'));
+
+  act(() => jest.advanceTimersByTime(1000));
+  expect(shownToast().notification.message).toBe('Aloe was removed from your collection');
+  act(() => shownToast().onAction());
+  expect(undoAloe).toHaveBeenCalled();
+
+  // Basil's Undo is shown next, for what is left of its own window
+  expect(shownToast().notification.message).toBe('Basil was removed from your collection');
+  act(() => jest.advanceTimersByTime(UNDO_WINDOW_MS - 1000));
+  expect(shownToast().notification.message).toBe('Plant saved');
+  expect(undoBasil).not.toHaveBeenCalled();
+});
+
+it('skips a queued Undo whose window ran out while it waited', () => {
+  notifyUndo('Aloe', jest.fn());
+  notifyUndo('Basil', jest.fn());
+  act(() => notifications.notify('error', 'Sync failed'));
+
+  act(() => jest.advanceTimersByTime(UNDO_WINDOW_MS));
+
+  expect(shownToast().notification.message).toBe('Sync failed');
+});
@@ -0,0 +1,175 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { ApiError, api } from '../../api/client';
+import { deleteImages } from '../../storage/imageFiles';
+import { PendingItem, PendingSave, getRetryDelay, loadQueue, saveQueue } from '../../storage/offlineQueue';
+import { OfflineQueueProvider, useOfflineQueue } from '../OfflineQueueContext';
+
+let mockUser: { id: string; username: string } | null = { id: 'user-1', username: 'fern' };
+let mockNetInfoListener: (state: { isConnected: boolean; isInternetReachable: boolean }) => void;
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: (listener: typeof mockNetInfoListener) => {
+    mockNetInfoListener = listener;
+    return () => {};
+  },
+}));
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+jest.mock('../../storage/imageFiles', () => ({
+  persistImage: jest.fn((uri: string) => Promise.resolve(uri)),
+  readImageBase64: jest.fn(() => Promise.resolve('base64')),
+  deleteImages: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../../api/client', () => ({
+  ...jest.requireActual('../../api/client'),
+  api: { identify: jest.fn(), createPlant: jest.fn() },
+}));
+
+const prediction = { plant_type: 'Boston fern', confidence: 0.9 };
+const plant: PendingSave['plant'] = {
+  name: 'Fern',
+  type: 'Boston fern',
+  user_id: 'user-1',
+  date_added: '2024-01-01T00:00:00.000Z',
+  confidence: 0.9,
+  all_predictions: [prediction],
+  model_prediction: prediction,
+  species_source: 'model',
+};
+const networkError = () => new ApiError('Network request failed', 'network');
+
+const pendingSave = (id: string): PendingItem => ({
+  id,
+  kind: 'save',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: 0,
+  imageUri: `file://${id}.jpg`,
+  plant,
+});
+
+let queue: ReturnType<typeof useOfflineQueue>;
+const Probe = () => {
+  queue = useOfflineQueue();
+  return null;
+};
+
+let tree: renderer.ReactTestRenderer;
+const renderProvider = async () => {
+  await act(async () => {
+    tree = renderer.create(
+      <OfflineQueueProvider>
+        <Probe />
+      </OfflineQueueProvider>
+    );
+  });
+};
+
+const flush = () => act(async () => {
+  await Promise.resolve();
+});
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  mockUser = { id: 'user-1', username: 'fern' };
+  (api.createPlant as jest.Mock).mockReset().mockResolvedValue({ _id: 'p1' });
+  (deleteImages as jest.Mock).mockClear();
+  await saveQueue('user-1', []);
+});
+
+afterEach(() => {
+  act(() => tree?.unmount());
+  jest.useRealTimers();
+});
+
+it('replays a queued save once it is due and drops it from the queue', async () => {
+  await renderProvider();
+  await act(() => queue.enqueueSave(plant, 'file://photo.jpg'));
+
+  expect(api.createPlant).not.toHaveBeenCalled();
+
+  await act(async () => {
+    jest.advanceTimersByTime(getRetryDelay(1));
+  });
+  await flush();
+
+  expect(api.createPlant).toHaveBeenCalledWith({ ...plant, image_data: 'base64' });
+  expect(queue.items).toEqual([]);
+  expect(queue.syncedCount).toBe(1);
+  expect(deleteImages).toHaveBeenCalledWith(['file://photo.jpg']);
+});
+
+it('backs off while the server still cannot be reached', async () => {
+  (api.createPlant as jest.Mock).mockRejectedValue(networkError());
+  await saveQueue('user-1', [pendingSave('a')]);
+  await renderProvider();
+  await flush();
+
+  const [item] = queue.items;
+  expect(item.status).toBe('pending');
+  expect(item.attempts).toBe(1);
+  expect(item.nextAttemptAt - Date.now()).toBe(getRetryDelay(1));
+
+  await act(async () => {
+    jest.advanceTimersByTime(getRetryDelay(1));
+  });
+  await flush();
+
+  expect(queue.items[0].attempts).toBe(2);
+  expect(queue.items[0].nextAttemptAt - Date.now()).toBe(getRetryDelay(2));
+});
+
+it('retries straight away when the connection comes back', async () => {
+  (api.createPlant as jest.Mock).mockRejectedValueOnce(networkError());
+  await saveQueue('user-1', [pendingSave('a')]);
+  await renderProvider();
+  await flush();
+  expect(queue.items[0].attempts).toBe(1);
+
+  await act(async () => {
+    mockNetInfoListener({ isConnected: false, isInternetReachable: false });
+  });
+  expect(queue.isOnline).toBe(false);
+
+  await act(async () => {
+    mockNetInfoListener({ isConnected: true, isInternetReachable: true });
+  });
+  await flush();
+
+  expect(api.createPlant).toHaveBeenCalledTimes(2);
+  expect(queue.items).toEqual([]);
+});
+
+it("doesn't wipe a user's stored queue when they sign out mid-upload", async () => {
+  let finishUpload: () => void = () => {};
+  (api.createPlant as jest.Mock).mockImplementation(
+    () => new Promise((resolve) => { finishUpload = () => resolve({ _id: 'p1' }); })
+  );
+  await saveQueue('user-1', [pendingSave('a'), pendingSave('b')]);
+  await renderProvider();
+  await flush();
+  expect(api.createPlant).toHaveBeenCalledTimes(1);
+
+  mockUser = null;
+  await act(async () => {
+    tree.update(
+      <OfflineQueueProvider>
+        <Probe />
+      </OfflineQueueProvider>
+    );
+  });
+  await act(async () => finishUpload());
+  await flush();
+
+  // The finished upload is taken off, the rest waits for the next sign-in
+  expect((await loadQueue('user-1')).map((item) => item.id)).toEqual(['b']);
+  expect(api.createPlant).toHaveBeenCalledTimes(1);
+  expect(queue.items).toEqual([]);
+});
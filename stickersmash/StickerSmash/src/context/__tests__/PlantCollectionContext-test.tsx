@@ -0,0 +1,117 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { api } from '../../api/client';
+import { PlantCollectionProvider, UNDO_WINDOW_MS, usePlantCollection } from '../PlantCollectionContext';
+
+const mockNotify = jest.fn();
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: { id: 'user-1', username: 'fern' } }),
+}));
+jest.mock('../NotificationContext', () => ({
+  useNotifications: () => ({ notify: mockNotify, dismiss: jest.fn() }),
+}));
+jest.mock('../../api/client', () => ({
+  ...jest.requireActual('../../api/client'),
+  api: { listPlants: jest.fn(), updatePlant: jest.fn(), deletePlant: jest.fn() },
+}));
+
+const plants = [
+  { _id: 'a', name: 'Aloe', type: 'Aloe vera', date_added: '2024-01-01', confidence: 0.9 },
+  { _id: 'b', name: 'Basil', type: 'Ocimum basilicum', date_added: '2024-01-02', confidence: 0.8 },
+];
+
+let collection: ReturnType<typeof usePlantCollection>;
+const Probe = () => {
+  collection = usePlantCollection();
+  return null;
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  mockNotify.mockClear();
+  (api.listPlants as jest.Mock).mockResolvedValue(plants);
+  (api.deletePlant as jest.Mock).mockReset().mockResolvedValue(undefined);
+
+  await act(async () => {
+    renderer.create(
+      <PlantCollectionProvider>
+        <Probe />
+      </PlantCollectionProvider>
+    );
+  });
+  await act(() => collection.fetchPlants());
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+it('hides a deleted plant at once and only sends the DELETE after the undo window', async () => {
+  act(() => collection.deletePlant(plants[0]));
+
+  expect(collection.plants.map((p) => p._id)).toEqual(['b']);
+  expect(api.deletePlant).not.toHaveBeenCalled();
+
+  await act(async () => {
+    jest.advanceTimersByTime(UNDO_WINDOW_MS);
+  });
+
+  expect(api.deletePlant).toHaveBeenCalledWith('a');
+  expect(collection.plants.map((p) => p._id)).toEqual(['b']);
+});
+
+it('puts the plant back in place when undone', async () => {
+  act(() => collection.deletePlant(plants[0]));
+  const undo = mockNotify.mock.calls[0][2].action.onPress;
+
+  act(() => undo());
+  await act(async () => {
+    jest.advanceTimersByTime(UNDO_WINDOW_MS);
+  });
+
+  expect(api.deletePlant).not.toHaveBeenCalled();
+  expect(collection.plants.map((p) => p._id)).toEqual(['a', 'b']);
+});
+
+it('restores the plant and reports an error if the server refuses', async () => {
+  (api.deletePlant as jest.Mock).mockRejectedValue(new Error('Forbidden'));
+
+  act(() => collection.deletePlant(plants[1]));
+  await act(async () => {
+    jest.advanceTimersByTime(UNDO_WINDOW_MS);
+  });
+
+  expect(collection.plants.map((p) => p._id)).toEqual(['a', 'b']);
+  expect(mockNotify).toHaveBeenLastCalledWith('error', 'Forbidden', expect.any(Object));
+});
+
+it('swaps an edited plant into the list without refetching', async () => {
+  (api.listPlants as jest.Mock).mockClear();
+  (api.updatePlant as jest.Mock).mockResolvedValue({ ...plants[1], name: 'Sweet basil' });
+
+  await act(async () => {
+    await collection.updatePlant('b', { name: 'Sweet basil' });
+  });
+
+  expect(api.updatePlant).toHaveBeenCalledWith('b', { name: 'Sweet basil' });
+  expect(api.listPlants).not.toHaveBeenCalled();
+  expect(collection.plants.map((p) => p.name)).toEqual(['Aloe', 'Sweet basil']);
+});
+
+it("merges an edit into the reloaded plant when the server doesn't echo it and the list is stale", async () => {
+  const newer = { _id: 'c', name: 'Cactus', type: 'Cactaceae', date_added: '2024-01-03', confidence: 0.7 };
+  (api.updatePlant as jest.Mock).mockResolvedValue(null);
+  (api.listPlants as jest.Mock).mockResolvedValue([...plants, newer]);
+
+  let updated: Awaited<ReturnType<typeof collection.updatePlant>> | undefined;
+  await act(async () => {
+    updated = await collection.updatePlant('c', { name: 'Prickly' });
+  });
+
+  expect(updated).toEqual({ ...newer, name: 'Prickly' });
+});
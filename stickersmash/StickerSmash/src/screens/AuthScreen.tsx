@@ -6,12 +6,16 @@ import {
   Text, 
   TextInput, 
   TouchableOpacity, 
-  Alert,
-  ActivityIndicator 
+  ActivityIndicator,
+  ScrollView
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { FieldErrors, RegistrationField, getServerFieldErrors, validateRegistration } from '../utils/validation';
 
 type AuthScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Auth'>;
 
@@ -19,108 +23,137 @@ type AuthScreenProps = {
   navigation: AuthScreenNavigationProp;
 };
 
-// Define your API URL - update with your backend URL
-const API_URL = 'http://127.0.0.1:8000'; // For web
-// const API_URL = 'http://10.0.2.2:8000'; // For Android emulator
-// const API_URL = 'http://localhost:8000'; // For iOS simulator
-
 const AuthScreen = ({ navigation }: AuthScreenProps) => {
+  const { signIn, sessionExpired } = useAuth();
+  const { notify } = useNotifications();
   const [isLogin, setIsLogin] = useState(true);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [loading, setLoading] = useState(false);
 
-  const handleAuth = async () => {
+  // Editing a field clears its error (and any form-level error)
+  const updateField = (field: RegistrationField, setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    if (fieldErrors[field] || fieldErrors.form) {
+      setFieldErrors(({ [field]: _, form, ...rest }) => rest);
+    }
+  };
+
+  const switchMode = () => {
+    setIsLogin(!isLogin);
+    setConfirmPassword('');
+    setFieldErrors({});
+  };
+
+  const handleLogin = async () => {
     if (!username || !password) {
-      Alert.alert('Error', 'Please enter both username and password');
+      notify('error', 'Please enter both username and password');
       return;
     }
 
     setLoading(true);
     
     try {
-      const endpoint = isLogin ? '/api/auth/login' : '/api/auth/register';
-      
-      // For FastAPI OAuth2PasswordRequestForm, use application/x-www-form-urlencoded
-      const formData = new URLSearchParams();
-      formData.append('username', username);
-      formData.append('password', password);
-      
-      console.log('Sending request to:', `${API_URL}${endpoint}`);
-      console.log('With data:', { username, password });
-      
-      const response = await fetch(`${API_URL}${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: formData.toString(),
-      });
-
-      // Log the full response for debugging
-      const responseText = await response.text();
-      console.log('Response status:', response.status);
-      console.log('Response text:', responseText);
-      
-      let data;
-      try {
-        // Try to parse the response as JSON
-        data = JSON.parse(responseText);
-      } catch (e) {
-        console.error('Error parsing response:', e);
-        data = { detail: responseText };
-      }
-      
-      if (!response.ok) {
-        throw new Error(data.detail || 'Authentication failed');
-      }
+      const data = await api.login(username, password);
       
-      // Save the auth token
-      await AsyncStorage.setItem('userToken', data.access_token);
-      await AsyncStorage.setItem('userId', data._id);
-      await AsyncStorage.setItem('username', data.username);
-      
-      // Navigate to the main app
-      navigation.replace('Main');
+      // Save the session; the navigator switches to the main app
+      await signIn(data);
     } catch (error) {
       console.error('Auth error:', error);
-      Alert.alert(
-        'Authentication Failed', 
-        isLogin ? 'Invalid username or password' : 'Failed to create account'
+      notify('error', 'Invalid username or password', { title: 'Authentication Failed' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    const errors = validateRegistration(username, password, confirmPassword);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const data = await api.register(username, password);
+      await signIn(data);
+    } catch (error) {
+      console.error('Registration error:', error);
+      // Show the server's reasons next to the fields they belong to
+      setFieldErrors(
+        getServerFieldErrors(error, 'Failed to create account', {
+          username: 'username',
+          password: 'password',
+        })
       );
     } finally {
       setLoading(false);
     }
   };
 
+  const renderFieldError = (field: keyof FieldErrors) =>
+    fieldErrors[field] ? <Text style={styles.fieldError}>{fieldErrors[field]}</Text> : null;
+
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
       <Text style={styles.title}>Floradex</Text>
       <Text style={styles.subtitle}>
         {isLogin ? 'Log in to your account' : 'Create a new account'}
       </Text>
 
+      {sessionExpired && (
+        <View style={styles.expiredBanner}>
+          <Text style={styles.expiredText}>Your session has expired. Please log in again.</Text>
+        </View>
+      )}
+
       <View style={styles.form}>
         <TextInput
-          style={styles.input}
+          style={[styles.input, !!fieldErrors.username && styles.inputError]}
           placeholder="Username"
           value={username}
-          onChangeText={setUsername}
+          onChangeText={updateField('username', setUsername)}
           autoCapitalize="none"
           editable={!loading}
         />
+        {renderFieldError('username')}
         <TextInput
-          style={styles.input}
+          style={[styles.input, !!fieldErrors.password && styles.inputError]}
           placeholder="Password"
           secureTextEntry
           value={password}
-          onChangeText={setPassword}
+          onChangeText={updateField('password', setPassword)}
           editable={!loading}
         />
+        {renderFieldError('password')}
+
+        {!isLogin && (
+          <>
+            <PasswordStrengthMeter password={password} />
+            <TextInput
+              style={[styles.input, !!fieldErrors.confirmPassword && styles.inputError]}
+              placeholder="Confirm password"
+              secureTextEntry
+              value={confirmPassword}
+              onChangeText={updateField('confirmPassword', setConfirmPassword)}
+              editable={!loading}
+            />
+            {renderFieldError('confirmPassword')}
+          </>
+        )}
+
+        {fieldErrors.form && (
+          <View style={styles.formError}>
+            <Text style={styles.formErrorText}>{fieldErrors.form}</Text>
+          </View>
+        )}
 
         <TouchableOpacity 
           style={[styles.button, loading && styles.disabledButton]} 
-          onPress={handleAuth}
+          onPress={isLogin ? handleLogin : handleRegister}
           disabled={loading}
         >
           {loading ? (
@@ -129,21 +162,26 @@ const AuthScreen = ({ navigation }: AuthScreenProps) => {
             <Text style={styles.buttonText}>{isLogin ? 'Log In' : 'Register'}</Text>
           )}
         </TouchableOpacity>
-        
+
+        {isLogin && (
+          <TouchableOpacity onPress={() => navigation.navigate('ForgotPassword')} disabled={loading}>
+            <Text style={styles.forgotText}>Forgot password?</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
-      <TouchableOpacity onPress={() => setIsLogin(!isLogin)} disabled={loading}>
+      <TouchableOpacity onPress={switchMode} disabled={loading}>
         <Text style={styles.switchText}>
           {isLogin ? "Don't have an account? Register" : "Already have an account? Log in"}
         </Text>
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
@@ -160,6 +198,19 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 24,
   },
+  expiredBanner: {
+    width: '100%',
+    backgroundColor: '#fff3e0',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ff9800',
+  },
+  expiredText: {
+    color: '#e65100',
+    fontSize: 14,
+  },
   form: {
     width: '100%',
     marginBottom: 24,
@@ -172,6 +223,25 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#ddd',
   },
+  inputError: {
+    borderColor: '#e53935',
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  formError: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+  },
+  formErrorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
   button: {
     backgroundColor: '#4CAF50',
     padding: 15,
@@ -191,6 +261,12 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  forgotText: {
+    color: '#666',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+  },
   switchText: {
     color: '#4CAF50',
     fontSize: 16,
@@ -0,0 +1,209 @@
+// src/screens/ChangePasswordScreen.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { RootStackParamList } from '../types/navigation';
+import { api, ApiError } from '../api/client';
+import { useNotifications } from '../context/NotificationContext';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { FieldErrors, getServerFieldErrors, validateNewPassword } from '../utils/validation';
+
+type ChangePasswordNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ChangePassword'>;
+
+type ChangePasswordScreenProps = {
+  navigation: ChangePasswordNavigationProp;
+};
+
+type ChangePasswordField = 'currentPassword' | 'password' | 'confirmPassword';
+
+const ChangePasswordScreen = ({ navigation }: ChangePasswordScreenProps) => {
+  const { notify } = useNotifications();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<ChangePasswordField>>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleChangePassword = async () => {
+    const errors: FieldErrors<ChangePasswordField> = validateNewPassword(password, confirmPassword);
+    if (!currentPassword) {
+      errors.currentPassword = 'Please enter your current password';
+    } else if (currentPassword === password) {
+      errors.password = 'New password must be different from your current one';
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.changePassword(currentPassword, password);
+      notify('success', 'Your password has been changed.');
+      navigation.goBack();
+    } catch (error) {
+      console.error('Change password error:', error);
+
+      // FastAPI reports a wrong current password as a plain 400
+      if (error instanceof ApiError && error.status === 400) {
+        setFieldErrors({ currentPassword: error.message });
+        return;
+      }
+
+      setFieldErrors(
+        getServerFieldErrors(error, 'Failed to change password', {
+          current_password: 'currentPassword',
+          new_password: 'password',
+        })
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderFieldError = (field: keyof FieldErrors<ChangePasswordField>) =>
+    fieldErrors[field] ? <Text style={styles.fieldError}>{fieldErrors[field]}</Text> : null;
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Change Password</Text>
+        <View style={styles.placeholderView} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <TextInput
+          style={styles.input}
+          placeholder="Current password"
+          secureTextEntry
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          editable={!loading}
+        />
+        {renderFieldError('currentPassword')}
+        <TextInput
+          style={styles.input}
+          placeholder="New password"
+          secureTextEntry
+          value={password}
+          onChangeText={setPassword}
+          editable={!loading}
+        />
+        {renderFieldError('password')}
+        <PasswordStrengthMeter password={password} />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm new password"
+          secureTextEntry
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          editable={!loading}
+        />
+        {renderFieldError('confirmPassword')}
+
+        {fieldErrors.form && (
+          <View style={styles.formError}>
+            <Text style={styles.formErrorText}>{fieldErrors.form}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.disabledButton]}
+          onPress={handleChangePassword}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Change Password</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholderView: {
+    width: 40, // Balance the header
+  },
+  content: {
+    padding: 20,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 15,
+    borderRadius: 5,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  formError: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+  },
+  formErrorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
+
+export default ChangePasswordScreen;
@@ -1,8 +1,10 @@
 // src/screens/CollectionScreen.tsx
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList, ActivityIndicator, TouchableOpacity, RefreshControl, Alert, Platform, Image } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { showMessage, showDeleteConfirmation } from '../utils/alertUtils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, ActivityIndicator, TouchableOpacity, RefreshControl, Alert, Platform, Image, TextInput, SectionList, useWindowDimensions } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { confirmAction } from '../utils/dialogs';
+import { api, isSessionExpiredError, resolveImageUri } from '../api/client';
+import { SUPPORTS_PLANT_QUERY } from '../config/environment';
 
 // Import navigation types
 import { useNavigation } from '@react-navigation/native';
@@ -10,6 +12,43 @@ import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MainTabParamList, RootStackParamList } from '../types/navigation';
+import { Plant } from './PlantDetailScreen';
+import { useAuth } from '../context/AuthContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { usePlantCollection } from '../context/PlantCollectionContext';
+import { useCareLog } from '../context/CareLogContext';
+import { useCareSchedule } from '../context/CareScheduleContext';
+import { formatDaysAgo, getCareStats } from '../storage/careLog';
+import { getDaysUntilDue } from '../storage/careSchedule';
+import { loadCollectionPreferences, saveCollectionPreferences } from '../storage/collectionPreferences';
+import { PendingItem } from '../storage/offlineQueue';
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  loadRecentSearches,
+  saveRecentSearches
+} from '../storage/recentSearches';
+import { CollectionFilterPanel } from '../components/CollectionFilterPanel';
+import { HighlightedText } from '../components/HighlightedText';
+import {
+  COLLECTION_LAYOUTS,
+  COLLECTION_LAYOUT_OPTIONS,
+  CollectionLayout,
+  CollectionPreferences,
+  DEFAULT_COLLECTION_FILTERS,
+  DEFAULT_COLLECTION_PREFERENCES,
+  NextCareDue,
+  ServerMatches,
+  applyCollectionPreferences,
+  applyServerMatches,
+  chunk,
+  countActiveFilters,
+  getColumnCount,
+  getFilterOptions,
+  groupBySpecies,
+  toPlantQuery
+} from '../utils/collectionView';
+import { PlantSearchResult, getMatchSnippet, searchPlants } from '../utils/plantSearch';
 
 // Define the composite navigation type for accessing both tab and stack navigators
 type CollectionScreenNavigationProp = CompositeNavigationProp<
@@ -17,146 +56,54 @@ type CollectionScreenNavigationProp = CompositeNavigationProp<
   NativeStackNavigationProp<RootStackParamList>
 >;
 
-// Define the Plant interface for this component
-interface Plant {
-  _id: string;
-  name: string;
-  type: string;
-  date_added: string;
-  image_url?: string;
-  confidence: number;
-  all_predictions?: Array<{
-    plant_type: string;
-    confidence: number;
-  }>;
-}
-
-const API_URL = 'http://127.0.0.1:8000';
-
 const CollectionScreen = () => {
   // Use the useNavigation hook with our composite type
   const navigation = useNavigation<CollectionScreenNavigationProp>();
+  const { items: pendingItems, isOnline, syncedCount, retryItem, removeItem } = useOfflineQueue();
   
-  const [plants, setPlants] = useState<Plant[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { plants, loading, error, fetchPlants: loadPlants } = usePlantCollection();
+  const { events: careEvents } = useCareLog();
+  const { tasks: careTasks } = useCareSchedule();
   const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({});
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [query, setQuery] = useState('');
+  const [searchFocused, setSearchFocused] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
 
-  // Function to get proper image URI
-  const getImageUri = (imageUrl: string | undefined): string => {
-    if (!imageUrl) return '';
-    
-    // If it starts with 'http', it's already a full URL
-    if (imageUrl.startsWith('http')) {
-      return imageUrl;
-    }
-    
-    // If it starts with '/', it's a server path that needs the API_URL prepended
-    if (imageUrl.startsWith('/')) {
-      return `${API_URL}${imageUrl}`;
-    }
-    
-    // Otherwise, just return the URL as is (could be a local file URI)
-    return imageUrl;
-  };
+  const [preferences, setPreferences] = useState<CollectionPreferences>(DEFAULT_COLLECTION_PREFERENCES);
+  const [showFilters, setShowFilters] = useState(false);
+  const [serverMatches, setServerMatches] = useState<ServerMatches | null>(null);
+  const activeFilterCount = countActiveFilters(preferences.filters);
+  const { layout } = preferences;
+  const { width } = useWindowDimensions();
+  // The screen has 20px of padding on each side
+  const columns = getColumnCount(layout, width - 40);
+
+  // For the "Next care due" sort: the soonest task for each plant
+  const nextCareDue = useMemo(() => {
+    const due: NextCareDue = new Map();
+    careTasks.forEach((task) => {
+      const days = getDaysUntilDue(task);
+      due.set(task.plantId, Math.min(days, due.get(task.plantId) ?? Infinity));
+    });
+    return due;
+  }, [careTasks]);
+
+  const filterOptions = useMemo(() => getFilterOptions(plants), [plants]);
+
+  const results = useMemo(() => {
+    const arranged = applyCollectionPreferences(plants, preferences, nextCareDue);
+    return searchPlants(serverMatches ? applyServerMatches(arranged, serverMatches) : arranged, query);
+  }, [plants, preferences, nextCareDue, serverMatches, query]);
 
   // Function to fetch plants from the API
   const fetchPlants = async () => {
-    try {
-      setError(null);
-      // Get the authentication token
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        console.error('No authentication token found');
-        setError('Authentication token not found. Please log in again.');
-        setLoading(false);
-        return;
-      }
-      
-      // Reset image errors when fetching new plants
-      setImageErrors({});
-      
-      // Try different potential API endpoints
-      const endpoints = [
-        '/api/plants',   // Original endpoint
-        '/plants',       // New endpoint
-        '/api/userplants', // Possibly renamed endpoint
-        '/userplants'     // Another possible endpoint
-      ];
-      
-      let response = null;
-      let validEndpoint = null;
-      
-      // Try each endpoint until one works
-      for (const endpoint of endpoints) {
-        const url = `${API_URL}${endpoint}`;
-        console.log('Trying to fetch plants from:', url);
-        
-        try {
-          const tempResponse = await fetch(url, {
-            headers: {
-              'Authorization': `Bearer ${token}`
-            }
-          });
-          
-          console.log(`Response status for ${endpoint}:`, tempResponse.status);
-          
-          if (tempResponse.ok) {
-            response = tempResponse;
-            validEndpoint = url;
-            break;
-          }
-        } catch (e) {
-          console.log(`Endpoint ${endpoint} failed:`, e);
-        }
-      }
-      
-      if (!response) {
-        throw new Error('Failed to fetch plants from any endpoint');
-      }
-      
-      console.log('Successfully connected to endpoint:', validEndpoint);
-      
-      // Log response headers
-      const headers: Record<string, string> = {};
-      response.headers.forEach((value: string, key: string) => {
-        headers[key] = value;
-      });
-      console.log('Response headers:', headers);
-      
-      const responseText = await response.text();
-      console.log('Response text length:', responseText.length);
-      
-      // Parse the response
-      const data = responseText ? JSON.parse(responseText) : [];
-      console.log('Parsed data:', data);
-      
-      // Check if data is an array
-      if (Array.isArray(data)) {
-        setPlants(data);
-        console.log(`Loaded ${data.length} plants`);
-        
-        // Log image URLs for debugging
-        data.forEach(plant => {
-          if (plant.image_url) {
-            console.log(`Plant ${plant._id} has image URL: ${plant.image_url}`);
-            console.log(`Full image URL will be: ${getImageUri(plant.image_url)}`);
-          }
-        });
-      } else {
-        console.error('Data is not an array:', data);
-        setPlants([]);
-        setError('Received invalid data format from server');
-      }
-    } catch (error) {
-      console.error('Error fetching plants:', error);
-      setError(`Failed to load plants: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
+    // Reset image errors when fetching new plants
+    setImageErrors({});
+    await loadPlants();
+    setRefreshing(false);
   };
   
   // Handle image loading error
@@ -168,21 +115,94 @@ const CollectionScreen = () => {
     }));
   };
   
-  // Load plants when the screen is first rendered
+  // Load plants when the screen is first rendered. Adds, edits and deletions made on other
+  // screens go through the shared collection, so there's no need to refetch on focus.
   useEffect(() => {
-    console.log('CollectionScreen mounted or focused');
     fetchPlants();
-    
-    // Add a listener for when this screen comes into focus
-    const unsubscribe = navigation.addListener('focus', () => {
-      console.log('CollectionScreen focused');
-      fetchPlants();
-    });
-    
-    // Clean up the listener when the component is unmounted
-    return unsubscribe;
-  }, [navigation]);
+  }, []);
   
+  // Queued saves that just reached the server show up as real plants
+  useEffect(() => {
+    if (syncedCount > 0) {
+      fetchPlants();
+    }
+  }, [syncedCount]);
+
+  useEffect(() => {
+    setRecentSearches([]);
+    if (userId) {
+      loadRecentSearches(userId).then(setRecentSearches);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setPreferences(DEFAULT_COLLECTION_PREFERENCES);
+    if (userId) {
+      loadCollectionPreferences(userId).then(setPreferences);
+    }
+  }, [userId]);
+
+  // Only the sort and filters change the server's answer; switching layouts shouldn't ask again
+  const plantQueryKey = JSON.stringify(toPlantQuery(preferences));
+  // Read when the answer arrives, so a collection that was still loading when we asked is covered
+  const plantsRef = useRef(plants);
+  plantsRef.current = plants;
+
+  // Filtering always happens on the device too, so this only matters for backends whose filters
+  // know more than we do; offline or on older backends the local result stands
+  useEffect(() => {
+    setServerMatches(null);
+    if (!SUPPORTS_PLANT_QUERY || !isOnline || activeFilterCount === 0) return;
+
+    let cancelled = false;
+    api
+      .listPlants(toPlantQuery(preferences))
+      .then((matched) => {
+        if (cancelled) return;
+        setServerMatches({
+          queried: new Set(plantsRef.current.map((plant) => plant._id)),
+          matched: new Set(matched.map((plant) => plant._id)),
+        });
+      })
+      .catch((error) => {
+        if (!isSessionExpiredError(error)) {
+          console.warn('Filtering on the server failed, using on-device filters:', error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plantQueryKey, isOnline]);
+
+  const updatePreferences = (next: CollectionPreferences) => {
+    setPreferences(next);
+    if (userId) {
+      saveCollectionPreferences(userId, next).catch((error) =>
+        console.error('Error saving collection preferences:', error)
+      );
+    }
+  };
+
+  const setLayout = (next: CollectionLayout) => updatePreferences({ ...preferences, layout: next });
+
+  const clearFilters = () => updatePreferences({ ...preferences, filters: DEFAULT_COLLECTION_FILTERS });
+
+  // Remember a search once it has been used: submitted, or a result opened
+  const rememberSearch = () => {
+    if (!userId || !query.trim()) return;
+    const next = addRecentSearch(recentSearches, query);
+    setRecentSearches(next);
+    saveRecentSearches(userId, next).catch((error) => console.error('Error saving recent searches:', error));
+  };
+
+  const handleClearRecent = () => {
+    setRecentSearches([]);
+    if (userId) {
+      clearRecentSearches(userId).catch((error) => console.error('Error clearing recent searches:', error));
+    }
+  };
+
   // Handle pull-to-refresh
   const onRefresh = () => {
     setRefreshing(true);
@@ -192,11 +212,308 @@ const CollectionScreen = () => {
   // Handle plant item press - navigate to plant detail screen
   const handlePlantPress = (plant: Plant) => {
     console.log('Plant card pressed for plant:', plant._id);
+    rememberSearch();
     
     // Use the root stack navigation to go to PlantDetail screen
     navigation.navigate('PlantDetail', { plant });
   };
 
+  const handleRemovePending = async (item: PendingItem) => {
+    const confirmed = await confirmAction({
+      title: 'Remove Pending Item',
+      message: 'Remove this item from the upload queue? Its photo will be discarded.',
+      confirmText: 'Remove',
+      destructive: true,
+    });
+    if (confirmed) {
+      await removeItem(item.id);
+    }
+  };
+
+  const describePending = (item: PendingItem) => {
+    if (item.kind === 'identify' && item.status === 'identified') {
+      return { title: item.result?.plant_type || 'Identification ready', subtitle: 'Ready to review' };
+    }
+    const title = item.kind === 'identify' ? 'Identifying plant' : `Adding ${item.plant.name}`;
+    if (item.status === 'failed') {
+      return { title, subtitle: item.lastError || 'Upload failed' };
+    }
+    if (!isOnline) {
+      return { title, subtitle: 'Waiting for a connection' };
+    }
+    return {
+      title,
+      subtitle: item.attempts > 0 ? `Retrying (attempt ${item.attempts + 1})` : 'Uploading soon',
+    };
+  };
+
+  // Work queued while offline, shown above the collection until it is uploaded
+  const renderPendingItems = () => {
+    if (pendingItems.length === 0) return null;
+
+    return (
+      <View style={styles.pendingContainer}>
+        <Text style={styles.pendingHeading}>Pending ({pendingItems.length})</Text>
+        {pendingItems.map((item) => {
+          const { title, subtitle } = describePending(item);
+          const thumbnail = item.kind === 'identify' ? item.imageUris[0] : item.imageUri;
+          return (
+            <View key={item.id} style={styles.pendingRow}>
+              {thumbnail ? (
+                <Image source={{ uri: thumbnail }} style={styles.pendingImage} />
+              ) : (
+                <View style={[styles.placeholderImage, styles.pendingImage]}>
+                  <Text>🌿</Text>
+                </View>
+              )}
+              <View style={styles.pendingDetails}>
+                <Text style={styles.pendingTitle} numberOfLines={1}>{title}</Text>
+                <Text
+                  style={[styles.pendingSubtitle, item.status === 'failed' && styles.pendingFailed]}
+                  numberOfLines={2}
+                >
+                  {subtitle}
+                </Text>
+              </View>
+              {item.status === 'identified' && (
+                <TouchableOpacity
+                  style={styles.pendingAction}
+                  onPress={() => navigation.navigate('Identify', { pendingId: item.id })}
+                >
+                  <Text style={styles.pendingActionText}>Review</Text>
+                </TouchableOpacity>
+              )}
+              {item.status === 'failed' && (
+                <TouchableOpacity style={styles.pendingAction} onPress={() => retryItem(item.id)}>
+                  <Text style={styles.pendingActionText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.pendingRemove} onPress={() => handleRemovePending(item)}>
+                <Text style={styles.pendingRemoveText}>×</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderSearchBar = () => (
+    <View style={styles.searchContainer}>
+      <View style={styles.searchRow}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={18} color="#999" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by name, species or notes"
+            value={query}
+            onChangeText={setQuery}
+            onFocus={() => setSearchFocused(true)}
+            // Give a tap on a recent search time to land before the list disappears
+            onBlur={() => setTimeout(() => setSearchFocused(false), 150)}
+            onSubmitEditing={rememberSearch}
+            returnKeyType="search"
+            autoCorrect={false}
+            autoCapitalize="none"
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Clear search">
+              <Ionicons name="close-circle" size={18} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.filterButton, activeFilterCount > 0 && styles.filterButtonActive]}
+          onPress={() => setShowFilters(true)}
+          accessibilityLabel="Sort and filter"
+        >
+          <Ionicons name="options-outline" size={20} color={activeFilterCount > 0 ? '#fff' : '#4CAF50'} />
+          {activeFilterCount > 0 && <Text style={styles.filterCount}>{activeFilterCount}</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {searchFocused && !query && recentSearches.length > 0 && (
+        <View style={styles.recentContainer}>
+          <View style={styles.recentHeader}>
+            <Text style={styles.recentHeading}>Recent searches</Text>
+            <TouchableOpacity onPress={handleClearRecent}>
+              <Text style={styles.recentClear}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.recentChips}>
+            {recentSearches.map((search) => (
+              <TouchableOpacity key={search} style={styles.recentChip} onPress={() => setQuery(search)}>
+                <Ionicons name="time-outline" size={14} color="#666" />
+                <Text style={styles.recentChipText}>{search}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEmptyResults = () => (
+    <View>
+      <Text style={styles.noResultsText}>
+        {query.trim() ? `No plants match "${query.trim()}"` : 'No plants match these filters'}
+      </Text>
+      {activeFilterCount > 0 && (
+        <TouchableOpacity onPress={clearFilters}>
+          <Text style={styles.clearFiltersText}>Clear filters</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  // Plant image, or a placeholder if it has none or it fails to load
+  const renderPlantImage = (item: Plant, variant: 'card' | 'tile') =>
+    item.image_url && !imageErrors[item._id] ? (
+      <Image 
+        source={{ uri: resolveImageUri(item.image_url) }}
+        style={variant === 'card' ? styles.plantImage : styles.tileImage} 
+        onError={(e) => handleImageError(item._id, e.nativeEvent.error)}
+      />
+    ) : (
+      <View style={[styles.placeholderImage, variant === 'tile' && styles.tileImage]}>
+        <Text style={styles.placeholderText}>🌿</Text>
+      </View>
+    );
+
+  // Full card for the list and grouped layouts
+  const renderPlantCard = ({ plant: item, matches }: PlantSearchResult) => {
+    const watering = getCareStats(careEvents, item._id, 'water');
+    const notesSnippet = item.notes && matches.notes ? getMatchSnippet(item.notes, matches.notes) : null;
+    return (
+      <TouchableOpacity 
+        style={styles.plantCard}
+        onPress={() => handlePlantPress(item)}
+      >
+        {renderPlantImage(item, 'card')}
+      
+        {/* Plant Details */}
+        <View style={styles.plantDetails}>
+          <HighlightedText
+            style={styles.plantName}
+            text={item.name || item.type}
+            ranges={item.name ? matches.name : matches.type}
+          />
+          <HighlightedText style={styles.plantType} text={item.type} ranges={matches.type} />
+          {notesSnippet && (
+            <HighlightedText
+              style={styles.plantNotes}
+              text={notesSnippet.text}
+              ranges={notesSnippet.ranges}
+              numberOfLines={2}
+            />
+          )}
+          <Text style={styles.plantDate}>
+            Added: {new Date(item.date_added).toLocaleDateString()}
+          </Text>
+          {item.confidence > 0 && (
+            <Text style={styles.plantConfidence}>
+              Confidence: {(item.confidence * 100).toFixed(0)}%
+            </Text>
+          )}
+          {watering.daysSinceLast !== null && (
+            <Text style={styles.plantCare}>
+              💧 Watered {formatDaysAgo(watering.daysSinceLast)}
+            </Text>
+          )}
+        </View>
+      
+      </TouchableOpacity>
+    );
+  };
+
+  // Photo-first tile for the grid layout
+  const renderPlantTile = ({ plant: item, matches }: PlantSearchResult) => (
+    <TouchableOpacity
+      key={item._id}
+      style={[styles.plantTile, { width: `${100 / columns}%` }]}
+      onPress={() => handlePlantPress(item)}
+    >
+      {renderPlantImage(item, 'tile')}
+      <HighlightedText
+        style={styles.tileName}
+        text={item.name || item.type}
+        ranges={item.name ? matches.name : matches.type}
+        numberOfLines={1}
+      />
+    </TouchableOpacity>
+  );
+
+  const renderResults = () => {
+    const listProps = {
+      // Re-render cards when care is logged elsewhere
+      extraData: careEvents,
+      keyboardShouldPersistTaps: 'handled' as const,
+      ListEmptyComponent: renderEmptyResults(),
+      contentContainerStyle: styles.listContent,
+      refreshControl: (
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          colors={['#4CAF50']}
+        />
+      ),
+    };
+
+    if (layout === 'grouped') {
+      // SectionList has no numColumns, so wide screens get rows of cards instead
+      const sections = groupBySpecies(results, (result) => result.plant).map((group) => ({
+        ...group,
+        data: chunk(group.items, columns),
+      }));
+
+      return (
+        <SectionList
+          {...listProps}
+          sections={sections}
+          keyExtractor={(row) => row.map((result) => result.plant._id).join(':')}
+          stickySectionHeadersEnabled={false}
+          renderSectionHeader={({ section }) => (
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{section.species}</Text>
+              <Text style={styles.sectionCount}>{section.count}</Text>
+            </View>
+          )}
+          renderItem={({ item: row }) => (
+            <View style={styles.cardRow}>
+              {row.map((result) => (
+                <View key={result.plant._id} style={styles.cardCell}>
+                  {renderPlantCard(result)}
+                </View>
+              ))}
+              {/* Keep the last row's cards the same width as the rest */}
+              {Array.from({ length: columns - row.length }, (_, i) => (
+                <View key={`spacer-${i}`} style={styles.cardCell} />
+              ))}
+            </View>
+          )}
+        />
+      );
+    }
+
+    return (
+      <FlatList
+        {...listProps}
+        // numColumns can't change on the fly, so remount when it does
+        key={`${layout}-${columns}`}
+        data={results}
+        keyExtractor={(result) => result.plant._id}
+        numColumns={columns}
+        renderItem={({ item }) =>
+          layout === 'grid' ? (
+            renderPlantTile(item)
+          ) : (
+            <View style={[styles.cardCell, { maxWidth: `${100 / columns}%` }]}>{renderPlantCard(item)}</View>
+          )
+        }
+      />
+    );
+  };
+
   // Render loading state
   if (loading) {
     return (
@@ -211,6 +528,25 @@ const CollectionScreen = () => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>My Plant Collection</Text>
+        {plants.length > 0 && (
+          <View style={styles.layoutToggle}>
+            {COLLECTION_LAYOUT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.layoutOption, layout === option && styles.layoutOptionSelected]}
+                onPress={() => setLayout(option)}
+                accessibilityLabel={COLLECTION_LAYOUTS[option].label}
+                accessibilityState={{ selected: layout === option }}
+              >
+                <Ionicons
+                  name={COLLECTION_LAYOUTS[option].icon}
+                  size={18}
+                  color={layout === option ? '#fff' : '#4CAF50'}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </View>
       
       {error && (
@@ -222,55 +558,20 @@ const CollectionScreen = () => {
         </View>
       )}
       
+      {renderPendingItems()}
+      
       {!error && plants.length > 0 ? (
         <>
-          <FlatList
-            data={plants}
-            keyExtractor={(item) => item._id}
-            renderItem={({ item }) => (
-              <TouchableOpacity 
-                style={styles.plantCard}
-                onPress={() => handlePlantPress(item)}
-              >
-                {/* Plant Image or Placeholder */}
-                {item.image_url && !imageErrors[item._id] ? (
-                  <Image 
-                    source={{ uri: getImageUri(item.image_url) }}
-                    style={styles.plantImage} 
-                    onError={(e) => handleImageError(item._id, e.nativeEvent.error)}
-                  />
-                ) : (
-                  <View style={styles.placeholderImage}>
-                    <Text style={styles.placeholderText}>🌿</Text>
-                  </View>
-                )}
-                
-                {/* Plant Details */}
-                <View style={styles.plantDetails}>
-                  <Text style={styles.plantName}>{item.name || item.type}</Text>
-                  <Text style={styles.plantType}>{item.type}</Text>
-                  <Text style={styles.plantDate}>
-                    Added: {new Date(item.date_added).toLocaleDateString()}
-                  </Text>
-                  {item.confidence > 0 && (
-                    <Text style={styles.plantConfidence}>
-                      Confidence: {(item.confidence * 100).toFixed(0)}%
-                    </Text>
-                  )}
-                </View>
-                
-              </TouchableOpacity>
-            )}
-            numColumns={2}
-            contentContainerStyle={styles.listContent}
-            refreshControl={
-              <RefreshControl
-                refreshing={refreshing}
-                onRefresh={onRefresh}
-                colors={['#4CAF50']}
-              />
-            }
+          {renderSearchBar()}
+          <CollectionFilterPanel
+            visible={showFilters}
+            preferences={preferences}
+            speciesOptions={filterOptions.species}
+            locationOptions={filterOptions.locations}
+            onChange={updatePreferences}
+            onClose={() => setShowFilters(false)}
           />
+          {renderResults()}
         </>
       ) : (
         <View style={styles.emptyState}>
@@ -307,6 +608,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   title: {
+    flexShrink: 1,
     fontSize: 24,
     fontWeight: 'bold',
   },
@@ -334,16 +636,20 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  cardRow: {
+    flexDirection: 'row',
+  },
+  cardCell: {
+    flex: 1,
+  },
   plantCard: {
     flex: 1,
-    margin: 8,
-    minHeight: 230, // Fixed minimum height
-    maxHeight: 280, // Maximum height instead of fixed height
+    flexDirection: 'row',
+    margin: 6,
     backgroundColor: '#fff',
     borderRadius: 10,
     padding: 12,
-    justifyContent: 'space-between',
-    alignItems: 'center',
+    alignItems: 'flex-start',
     borderWidth: 1,
     borderColor: '#ddd',
     elevation: 2,
@@ -354,18 +660,18 @@ const styles = StyleSheet.create({
     overflow: 'hidden', // Prevents children from flowing out of the card
   },
   plantImage: {
-    width: '100%',
-    height: 90,
+    width: 80,
+    height: 80,
     borderRadius: 8,
-    marginBottom: 8,
+    marginRight: 12,
     resizeMode: 'cover',
   },
   placeholderImage: {
-    width: '100%',
-    height: 90,
+    width: 80,
+    height: 80,
     backgroundColor: '#e0f2e9',
     borderRadius: 8,
-    marginBottom: 8,
+    marginRight: 12,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -373,21 +679,23 @@ const styles = StyleSheet.create({
     fontSize: 36,
   },
   plantDetails: {
-    width: '100%',
-    alignItems: 'center',
-    marginBottom: 8,
+    flex: 1,
   },
   plantName: {
     fontSize: 15,
     fontWeight: 'bold',
     marginBottom: 4,
-    textAlign: 'center',
   },
   plantType: {
     fontSize: 13,
     color: '#666',
     marginBottom: 4,
-    textAlign: 'center',
+  },
+  plantNotes: {
+    fontSize: 11,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 4,
   },
   plantDate: {
     fontSize: 11,
@@ -399,6 +707,66 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     marginBottom: 4,
   },
+  plantCare: {
+    fontSize: 11,
+    color: '#1e88e5',
+    marginBottom: 4,
+  },
+  // Photo grid
+  plantTile: {
+    padding: 4,
+  },
+  tileImage: {
+    width: '100%',
+    height: 'auto',
+    aspectRatio: 1,
+    marginRight: 0,
+    marginBottom: 4,
+  },
+  tileName: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  // Grouped by species
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 4,
+    marginHorizontal: 6,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  sectionCount: {
+    fontSize: 13,
+    color: '#666',
+    backgroundColor: '#e0f2e9',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  // Layout switcher
+  layoutToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  layoutOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: '#fff',
+  },
+  layoutOptionSelected: {
+    backgroundColor: '#4CAF50',
+  },
   deleteButton: {
     backgroundColor: '#f44336',
     padding: 8,
@@ -443,7 +811,166 @@ const styles = StyleSheet.create({
   retryText: {
     color: '#fff',
     fontSize: 14,
-  }
+  },
+  // Search
+  searchContainer: {
+    marginBottom: 12,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    fontSize: 15,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 42,
+    paddingHorizontal: 10,
+    marginLeft: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    backgroundColor: '#fff',
+  },
+  filterButtonActive: {
+    backgroundColor: '#4CAF50',
+  },
+  filterCount: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  recentContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    padding: 12,
+    marginTop: 8,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  recentHeading: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  recentClear: {
+    fontSize: 13,
+    color: '#4CAF50',
+  },
+  recentChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  recentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 14,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  recentChipText: {
+    fontSize: 13,
+    color: '#333',
+    marginLeft: 4,
+  },
+  noResultsText: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  clearFiltersText: {
+    fontSize: 15,
+    color: '#4CAF50',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  // Offline queue
+  pendingContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  pendingHeading: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginBottom: 8,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  pendingImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+    marginBottom: 0,
+  },
+  pendingDetails: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  pendingTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  pendingSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  pendingFailed: {
+    color: '#c62828',
+  },
+  pendingAction: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  pendingActionText: {
+    color: '#4CAF50',
+    fontSize: 13,
+  },
+  pendingRemove: {
+    paddingHorizontal: 8,
+  },
+  pendingRemoveText: {
+    fontSize: 20,
+    color: '#999',
+  },
 });
 
 export default CollectionScreen;
\ No newline at end of file
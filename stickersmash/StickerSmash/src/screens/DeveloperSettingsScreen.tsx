@@ -0,0 +1,252 @@
+// src/screens/DeveloperSettingsScreen.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { RootStackParamList } from '../types/navigation';
+import {
+  EnvironmentName,
+  PRESET_ENVIRONMENTS,
+  getCustomApiUrl,
+  getEnvironment,
+  setEnvironment
+} from '../config/environment';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+
+type DeveloperSettingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'DeveloperSettings'>;
+
+const ENVIRONMENT_LABELS: Record<EnvironmentName, string> = {
+  dev: 'Development',
+  staging: 'Staging',
+  prod: 'Production',
+  custom: 'Custom URL',
+};
+
+const DeveloperSettingsScreen = () => {
+  const navigation = useNavigation<DeveloperSettingsNavigationProp>();
+  const { status, signOut } = useAuth();
+  const { notify } = useNotifications();
+  const active = getEnvironment();
+
+  const [selected, setSelected] = useState<EnvironmentName>(active.name);
+  const [customUrl, setCustomUrl] = useState(getCustomApiUrl());
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const previousUrl = active.apiUrl;
+      const next = await setEnvironment(selected, customUrl);
+
+      if (next.apiUrl === previousUrl) {
+        navigation.goBack();
+        return;
+      }
+
+      // A token from one server is meaningless on another, so start a fresh session
+      if (status === 'signedIn') {
+        await signOut();
+        notify('info', `Now using ${next.apiUrl}. Please log in again.`, { title: 'Server Changed' });
+      } else {
+        navigation.goBack();
+      }
+    } catch (error) {
+      console.error('Error changing environment:', error);
+      notify('error', error instanceof Error ? error.message : 'Failed to change server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOption = (name: EnvironmentName) => {
+    const url = name === 'custom' ? null : PRESET_ENVIRONMENTS[name];
+    const disabled = name !== 'custom' && !url;
+    const isSelected = selected === name;
+
+    return (
+      <TouchableOpacity
+        key={name}
+        style={[styles.option, disabled && styles.disabledOption]}
+        onPress={() => setSelected(name)}
+        disabled={disabled || saving}
+      >
+        <Ionicons
+          name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+          size={22}
+          color={disabled ? '#bbb' : '#4CAF50'}
+        />
+        <View style={styles.optionText}>
+          <Text style={styles.optionLabel}>{ENVIRONMENT_LABELS[name]}</Text>
+          {name !== 'custom' && (
+            <Text style={styles.optionUrl}>{url || 'Not configured in app.json'}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Developer Settings</Text>
+        <View style={styles.placeholderView} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.infoCard}>
+          <Text style={styles.infoTitle}>Backend Server</Text>
+          <Text style={styles.currentText}>Currently using: {active.apiUrl}</Text>
+
+          {(['dev', 'staging', 'prod', 'custom'] as EnvironmentName[]).map(renderOption)}
+
+          {selected === 'custom' && (
+            <TextInput
+              style={styles.input}
+              placeholder="http://192.168.1.10:8000"
+              value={customUrl}
+              onChangeText={setCustomUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              editable={!saving}
+            />
+          )}
+        </View>
+
+        <Text style={styles.helperText}>
+          Switching to a different server logs you out.
+        </Text>
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.disabledButton]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholderView: {
+    width: 40, // Balance the header
+  },
+  content: {
+    padding: 16,
+  },
+  infoCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  infoTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+    color: '#4CAF50',
+  },
+  currentText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  disabledOption: {
+    opacity: 0.6,
+  },
+  optionText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 16,
+  },
+  optionUrl: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 5,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  helperText: {
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+  },
+});
+
+export default DeveloperSettingsScreen;
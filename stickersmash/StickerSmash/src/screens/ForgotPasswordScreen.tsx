@@ -0,0 +1,266 @@
+// src/screens/ForgotPasswordScreen.tsx
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { RootStackParamList } from '../types/navigation';
+import { api } from '../api/client';
+import { useNotifications } from '../context/NotificationContext';
+import { PasswordStrengthMeter } from '../components/PasswordStrengthMeter';
+import { FieldErrors, getServerFieldErrors, validateNewPassword } from '../utils/validation';
+
+type ForgotPasswordNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ForgotPassword'>;
+
+type ForgotPasswordScreenProps = {
+  navigation: ForgotPasswordNavigationProp;
+};
+
+type ResetField = 'username' | 'code' | 'password' | 'confirmPassword';
+
+const ForgotPasswordScreen = ({ navigation }: ForgotPasswordScreenProps) => {
+  const { notify } = useNotifications();
+  // 'request' asks for a code, 'confirm' sets the new password with it
+  const [step, setStep] = useState<'request' | 'confirm'>('request');
+  const [username, setUsername] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<ResetField>>({});
+  const [loading, setLoading] = useState(false);
+
+  const handleRequestCode = async () => {
+    if (!username) {
+      setFieldErrors({ username: 'Please enter your username' });
+      return;
+    }
+
+    setLoading(true);
+    setFieldErrors({});
+
+    try {
+      await api.requestPasswordReset(username);
+      setStep('confirm');
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      setFieldErrors(
+        getServerFieldErrors(error, 'Failed to send a reset code', { username: 'username' })
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    const errors: FieldErrors<ResetField> = validateNewPassword(password, confirmPassword);
+    if (!code) {
+      errors.code = 'Please enter the code you received';
+    }
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.confirmPasswordReset(username, code.trim(), password);
+      notify('success', 'Your password has been reset. You can now log in.');
+      navigation.goBack();
+    } catch (error) {
+      console.error('Password reset error:', error);
+      setFieldErrors(
+        getServerFieldErrors(error, 'Failed to reset password', {
+          code: 'code',
+          new_password: 'password',
+        })
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderFieldError = (field: keyof FieldErrors<ResetField>) =>
+    fieldErrors[field] ? <Text style={styles.fieldError}>{fieldErrors[field]}</Text> : null;
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reset Password</Text>
+        <View style={styles.placeholderView} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'request' ? (
+          <>
+            <Text style={styles.instructions}>
+              Enter your username and we'll send you a code to reset your password.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Username"
+              value={username}
+              onChangeText={setUsername}
+              autoCapitalize="none"
+              editable={!loading}
+            />
+            {renderFieldError('username')}
+          </>
+        ) : (
+          <>
+            <Text style={styles.instructions}>
+              Enter the code sent for {username} and choose a new password.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Reset code"
+              value={code}
+              onChangeText={setCode}
+              autoCapitalize="none"
+              editable={!loading}
+            />
+            {renderFieldError('code')}
+            <TextInput
+              style={styles.input}
+              placeholder="New password"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+              editable={!loading}
+            />
+            {renderFieldError('password')}
+            <PasswordStrengthMeter password={password} />
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm new password"
+              secureTextEntry
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              editable={!loading}
+            />
+            {renderFieldError('confirmPassword')}
+          </>
+        )}
+
+        {fieldErrors.form && (
+          <View style={styles.formError}>
+            <Text style={styles.formErrorText}>{fieldErrors.form}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.disabledButton]}
+          onPress={step === 'request' ? handleRequestCode : handleResetPassword}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>
+              {step === 'request' ? 'Send Reset Code' : 'Reset Password'}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        {step === 'confirm' && (
+          <TouchableOpacity onPress={handleRequestCode} disabled={loading}>
+            <Text style={styles.linkText}>Didn't get a code? Send again</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholderView: {
+    width: 40, // Balance the header
+  },
+  content: {
+    padding: 20,
+  },
+  instructions: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#fff',
+    padding: 15,
+    borderRadius: 5,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  fieldError: {
+    color: '#c62828',
+    fontSize: 13,
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  formError: {
+    backgroundColor: '#ffebee',
+    padding: 12,
+    borderRadius: 5,
+    marginBottom: 16,
+  },
+  formErrorText: {
+    color: '#c62828',
+    fontSize: 14,
+  },
+  button: {
+    backgroundColor: '#4CAF50',
+    padding: 15,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  linkText: {
+    color: '#4CAF50',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+});
+
+export default ForgotPasswordScreen;
@@ -0,0 +1,276 @@
+// src/screens/HistoryScreen.tsx
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Image,
+  ActivityIndicator
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { RootStackParamList } from '../types/navigation';
+import { getErrorMessage } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { HistoryEntry, deleteHistoryEntry, loadHistory } from '../storage/identificationHistory';
+import { getPredictionOptions } from '../utils/identification';
+import { confirmAction } from '../utils/dialogs';
+
+type HistoryNavigationProp = NativeStackNavigationProp<RootStackParamList, 'History'>;
+
+type HistoryScreenProps = {
+  navigation: HistoryNavigationProp;
+};
+
+const HistoryScreen = ({ navigation }: HistoryScreenProps) => {
+  const { user } = useAuth();
+  const { notify } = useNotifications();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = async () => {
+    if (!user) return;
+    setEntries(await loadHistory(user.id));
+    setLoading(false);
+  };
+
+  // Reload when coming back from IdentifyScreen, where an entry may have been saved
+  useFocusEffect(
+    useCallback(() => {
+      fetchHistory();
+    }, [user?.id])
+  );
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    const confirmed = await confirmAction({
+      title: 'Delete Entry',
+      message: `Remove the ${entry.result.plant_type || 'unidentified'} identification from your history?`,
+      confirmText: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed || !user) return;
+
+    try {
+      await deleteHistoryEntry(user.id, entry.id);
+      setEntries((current) => current.filter((e) => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting history entry:', error);
+      notify('error', getErrorMessage(error, 'Failed to delete history entry'));
+    }
+  };
+
+  // Saving goes through IdentifyScreen so species choice and confidence checks still apply
+  const handleReview = (entry: HistoryEntry) => {
+    navigation.navigate('Main', { screen: 'Identify', params: { historyId: entry.id } });
+  };
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => {
+    const [top, ...others] = getPredictionOptions(item.result);
+    const date = new Date(item.createdAt);
+
+    return (
+      <View style={styles.entryCard}>
+        <View style={styles.entryRow}>
+          {item.imageUri ? (
+            <Image source={{ uri: item.imageUri }} style={styles.thumbnail} />
+          ) : (
+            <View style={[styles.thumbnail, styles.placeholderImage]}>
+              <Text style={styles.placeholderText}>🌿</Text>
+            </View>
+          )}
+
+          <View style={styles.entryDetails}>
+            <Text style={styles.plantType}>{top?.plant_type || 'Unknown'}</Text>
+            <Text style={styles.entryMeta}>
+              {top ? `${(top.confidence * 100).toFixed(0)}% · ` : ''}
+              {date.toLocaleDateString()} {date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+            {others.length > 0 && (
+              <Text style={styles.otherPredictions} numberOfLines={1}>
+                Also: {others.slice(0, 2).map((p) => `${p.plant_type} ${(p.confidence * 100).toFixed(0)}%`).join(', ')}
+              </Text>
+            )}
+          </View>
+
+          {item.saved && (
+            <View style={styles.savedBadge}>
+              <Text style={styles.savedText}>Saved</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          {!item.saved && (
+            <TouchableOpacity style={styles.saveButton} onPress={() => handleReview(item)}>
+              <Text style={styles.saveText}>Review & Save</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+            <Ionicons name="trash-outline" size={18} color="#ff6b6b" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header with back button */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#4CAF50" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Identification History</Text>
+        <View style={styles.placeholderView} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color="#4CAF50" />
+        </View>
+      ) : entries.length === 0 ? (
+        <View style={styles.centerContent}>
+          <Text style={styles.emptyText}>No identifications yet</Text>
+          <Text style={styles.emptySubtitle}>Plants you identify will show up here</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 10,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholderView: {
+    width: 40, // Balance the header
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    marginBottom: 10,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  entryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+  },
+  placeholderImage: {
+    backgroundColor: '#e0f2e9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 28,
+  },
+  entryDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  plantType: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  otherPredictions: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  savedBadge: {
+    backgroundColor: '#e8f5e9',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  savedText: {
+    color: '#4CAF50',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  saveButton: {
+    backgroundColor: '#4CAF50',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 5,
+  },
+  saveText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+});
+
+export default HistoryScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -6,59 +6,184 @@ import {
   TouchableOpacity, 
   Image, 
   ScrollView, 
-  ActivityIndicator, 
-  Platform, 
-  Alert 
+  TextInput,
+  ActivityIndicator
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
-import { MainTabParamList } from '../types/navigation';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { CompositeNavigationProp, RouteProp } from '@react-navigation/native';
+import { MainTabParamList, RootStackParamList } from '../types/navigation';
+import { api, getErrorMessage, isOfflineError } from '../api/client';
+import { IdentificationResult, NewPlant, PlantSpecies } from '../types/api';
+import { useAuth } from '../context/AuthContext';
+import { useOfflineQueue } from '../context/OfflineQueueContext';
+import { useNotifications } from '../context/NotificationContext';
+import { usePlantCollection } from '../context/PlantCollectionContext';
+import {
+  MAX_IDENTIFY_PHOTOS,
+  getPredictionOptions,
+  mergeIdentificationResults,
+  resolveSpeciesChoice
+} from '../utils/identification';
+import { describeSavings, prepareImageForUpload } from '../utils/imageProcessing';
+import { confirmAction } from '../utils/dialogs';
+import { getConfidenceThreshold, isLowConfidence } from '../config/confidence';
+import { addHistoryEntry, getHistoryEntry, markHistorySaved } from '../storage/identificationHistory';
 
-type IdentifyScreenNavigationProp = BottomTabNavigationProp<MainTabParamList, 'Identify'>;
+type IdentifyScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<MainTabParamList, 'Identify'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
 
 type IdentifyScreenProps = {
   navigation: IdentifyScreenNavigationProp;
+  route: RouteProp<MainTabParamList, 'Identify'>;
 };
 
-// Updated type to include care_info
-type IdentificationResult = {
-  plant_type: string;
-  confidence: number;
-  all_predictions: Array<{
-    plant_type: string;
-    confidence: number;
-  }>;
-  image_url?: string; // Field for storing the image URL
-  care_info?: {
-    care_instructions?: string;
-    watering_frequency?: string;
-    sunlight_requirements?: string;
-    humidity?: string;
-    temperature?: string;
-    fertilization?: string;
-  };
-};
-
-const API_URL = 'http://127.0.0.1:8000';
-
-// Helper function to show error messages
-const showErrorMessage = (message: string, title: string = 'Error') => {
-  Alert.alert(title, message);
-};
+// Suggestions shown when the model isn't sure
+const RETAKE_TIPS = [
+  'Move closer so the plant fills the frame',
+  'Use even daylight and avoid harsh shadows',
+  'Photograph a single leaf or flower against a plain background',
+  'Add a few photos from different angles',
+];
 
-const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
-  const [image, setImage] = useState<string | null>(null);
+const IdentifyScreen = ({ navigation, route }: IdentifyScreenProps) => {
+  const { user } = useAuth();
+  const { notify } = useNotifications();
+  const { items: pendingItems, enqueueIdentification, enqueueSave, removeItem } = useOfflineQueue();
+  const { addPlant, fetchPlants } = usePlantCollection();
+  // Several photos of the same plant (leaf, flower, whole plant) give better results
+  const [images, setImages] = useState<string[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
   const [loading, setLoading] = useState(false);
   const [identificationResult, setIdentificationResult] = useState<IdentificationResult | null>(null);
   const [showResultCard, setShowResultCard] = useState(false);
+  // The prediction the user picked (null means the top one), or their own species name
+  const [selectedType, setSelectedType] = useState<string | null>(null);
+  const [manualSpecies, setManualSpecies] = useState<string | null>(null);
+  const [alternativeCareInfo, setAlternativeCareInfo] = useState<PlantSpecies | null>(null);
+  // Queued identification being reviewed; removed from the queue once saved or discarded
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  // History entry for the result on screen, marked as saved once it reaches the collection
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const speciesChoice = identificationResult
+    ? resolveSpeciesChoice(identificationResult, selectedType, manualSpecies)
+    : null;
+
+  // Care info in the result only covers the top prediction, so look up a chosen alternative
+  useEffect(() => {
+    if (!speciesChoice || speciesChoice.source !== 'alternative') {
+      setAlternativeCareInfo(null);
+      return;
+    }
+
+    let cancelled = false;
+    api.getSpecies(speciesChoice.plant_type)
+      .then((species) => {
+        if (!cancelled) setAlternativeCareInfo(species);
+      })
+      .catch((error) => {
+        console.log('No care info for selected species:', error);
+        if (!cancelled) setAlternativeCareInfo(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [speciesChoice?.source, speciesChoice?.plant_type]);
+
+  const viewCollectionAction = { label: 'View', onPress: () => navigation.navigate('Collection') };
+
+  // Every identification goes into the local history, saved or not
+  const recordHistory = async (result: IdentificationResult) => {
+    if (!user) return;
+    try {
+      const entry = await addHistoryEntry(user.id, result);
+      setHistoryId(entry.id);
+    } catch (error) {
+      console.error('Error recording identification history:', error);
+    }
+  };
+
+  // Opened from a finished queued identification in CollectionScreen
+  const pendingId = route.params?.pendingId;
+  useEffect(() => {
+    if (!pendingId) return;
+
+    const item = pendingItems.find((i) => i.id === pendingId);
+    if (item?.kind === 'identify' && item.result) {
+      setImages(item.imageUris);
+      setSelectedIndex(item.result.best_photo_index ?? 0);
+      setIdentificationResult(item.result);
+      setSelectedType(null);
+      setManualSpecies(null);
+      setShowResultCard(true);
+      setReviewingId(item.id);
+      recordHistory(item.result);
+    }
+    navigation.setParams({ pendingId: undefined });
+  }, [pendingId]);
+
+  // Opened from HistoryScreen to save a past result
+  const historyParam = route.params?.historyId;
+  useEffect(() => {
+    if (!historyParam || !user) return;
+
+    getHistoryEntry(user.id, historyParam)
+      .then((entry) => {
+        if (!entry) return;
+        const photo = entry.photoUri || entry.imageUri;
+        setImages(photo ? [photo] : []);
+        setSelectedIndex(0);
+        setIdentificationResult(entry.result);
+        setSelectedType(null);
+        setManualSpecies(null);
+        setShowResultCard(true);
+        setReviewingId(null);
+        setHistoryId(entry.id);
+      })
+      .catch((error) => {
+        console.error('Error loading history entry:', error);
+        notify('error', getErrorMessage(error, 'Could not open that identification from your history'));
+      });
+    navigation.setParams({ historyId: undefined });
+  }, [historyParam]);
+
+  const resetSpeciesChoice = () => {
+    setSelectedType(null);
+    setManualSpecies(null);
+  };
+
+  const selectPrediction = (plantType: string) => {
+    setSelectedType(plantType);
+    setManualSpecies(null);
+  };
+
+  // Shared by camera capture and library selection
+  const handlePickerResult = (result: ImagePicker.ImagePickerResult) => {
+    if (!result.canceled) {
+      const added = result.assets.map((asset) => asset.uri);
+      const next = [...images, ...added].slice(0, MAX_IDENTIFY_PHOTOS);
+      setImages(next);
+      setSelectedIndex(next.length - 1);
+      // Reset any previous identification results
+      setIdentificationResult(null);
+      setShowResultCard(false);
+      resetSpeciesChoice();
+      setHistoryId(null);
+    }
+  };
 
   const pickImage = async () => {
     // Ask for permission
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     
     if (status !== 'granted') {
-      alert('Sorry, we need camera roll permissions to make this work!');
+      notify('warning', 'Sorry, we need camera roll permissions to make this work!');
       return;
     }
     
@@ -70,123 +195,169 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
       quality: 1,
     });
 
-    if (!result.canceled) {
-      setImage(result.assets[0].uri);
-      // Reset any previous identification results
-      setIdentificationResult(null);
-      setShowResultCard(false);
+    handlePickerResult(result);
+  };
+
+  const removeImage = (index: number) => {
+    const next = images.filter((_, i) => i !== index);
+    setImages(next);
+    setSelectedIndex(Math.min(selectedIndex, Math.max(next.length - 1, 0)));
+  };
+
+  const resetImages = () => {
+    setImages([]);
+    setSelectedIndex(0);
+  };
+
+  const takePhoto = async () => {
+    // Ask for permission
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (status !== 'granted') {
+      notify('warning', 'Sorry, we need camera permissions to take a photo!');
+      return;
+    }
+
+    try {
+      // Take the photo
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 1,
+      });
+
+      handlePickerResult(result);
+    } catch (error) {
+      // Simulators and some web browsers have no camera
+      console.error('Camera error:', error);
+      notify('warning', 'The camera is not available on this device. Please choose a photo from your library instead.');
     }
   };
 
   const identifyPlant = async () => {
     // Ensure an image is selected
-    if (!image) {
-      showErrorMessage('Please select an image first');
+    if (images.length === 0) {
+      notify('warning', 'Please select an image first');
       return;
     }
   
     // Start loading state
     setLoading(true);
+    const uploadUris: string[] = [];
   
     try {
-      // Get the authentication token and user ID
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
-      
-      if (!token || !userId) {
-        throw new Error('Authentication information not found. Please log in.');
-      }
-  
-      // Create a file from the image URI
-      const fileResponse = await fetch(image);
-      const fileBlob = await fileResponse.blob();
-  
-      // Create form data to send the image
-      const formData = new FormData();
-      
-      // Append the file as a Blob
-      formData.append('file', fileBlob, 'plant_image.jpg');
-  
-      // Send image to backend for identification
-      const response = await fetch(`${API_URL}/api/identify/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Accept': 'application/json',
-        },
-        body: formData
-      });
-  
-      // Check if the response is successful
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Identification error response:', errorText);
-        throw new Error(`Plant identification failed: ${errorText}`);
+      // Shrink each photo before uploading; fall back to the original if that fails
+      let originalBytes = 0;
+      let uploadBytes = 0;
+      for (const uri of images) {
+        try {
+          const processed = await prepareImageForUpload(uri);
+          uploadUris.push(processed.uri);
+          originalBytes += processed.originalBytes;
+          uploadBytes += processed.processedBytes;
+        } catch (error) {
+          console.warn('Image preprocessing failed, uploading original:', error);
+          uploadUris.push(uri);
+        }
       }
-  
-      // Parse the identification result
-      const result = await response.json();
+
+      // Send each image to backend for identification
+      const results = await Promise.all(uploadUris.map((uri) => api.identify(uri)));
       
-      // Always use the local image URI for display, regardless of what the server returns
-      if (image) {
-        result.image_url = image;
-        console.log('Using local image URI:', image);
-      }
+      // Merge the photos into one answer; always use the local image URIs for display
+      const result = mergeIdentificationResults(results, images);
       
       console.log('Identification result with local image:', result);
       
       // Store the identification result in state
       setIdentificationResult(result);
+      resetSpeciesChoice();
       setShowResultCard(true);
+      if (originalBytes > 0 && uploadBytes > 0) {
+        notify('info', describeSavings({ originalBytes, processedBytes: uploadBytes }));
+      }
+      await recordHistory(result);
   
     } catch (error) {
+      // Keep the photos and identify them once the connection is back
+      if (isOfflineError(error)) {
+        try {
+          await enqueueIdentification(uploadUris);
+          notify('info', "You're offline. We'll identify this plant when you're back online.", {
+            title: 'Saved for Later',
+            action: viewCollectionAction,
+          });
+          resetImages();
+          return;
+        } catch (queueError) {
+          console.error('Could not queue identification:', queueError);
+        }
+      }
+
       // Handle any errors
       console.error('Plant identification error:', error);
-      showErrorMessage(
-        error instanceof Error 
-          ? error.message 
-          : 'An unexpected error occurred during plant identification'
-      );
+      notify('error', getErrorMessage(error, 'An unexpected error occurred during plant identification'));
     } finally {
       // Reset loading state
       setLoading(false);
     }
   };
 
+  // Low-confidence picks below the user's threshold; a manually typed species is the user's own call
+  const needsConfirmation =
+    !!speciesChoice &&
+    speciesChoice.source !== 'manual' &&
+    isLowConfidence(speciesChoice.confidence);
+
   const addToCollection = async () => {
     if (!identificationResult) {
-      showErrorMessage('No identification result to save');
+      notify('error', 'No identification result to save');
+      return;
+    }
+
+    if (!speciesChoice) {
+      notify('warning', 'Please enter a species name or choose one of the predictions');
       return;
     }
 
+    if (needsConfirmation) {
+      const confirmed = await confirmAction({
+        title: 'Low Confidence',
+        message: `Only ${(speciesChoice.confidence * 100).toFixed(0)}% sure this is ${speciesChoice.plant_type}. Save it anyway?`,
+        confirmText: 'Save',
+      });
+      if (!confirmed) return;
+    }
+
+    saveToCollection();
+  };
+
+  const saveToCollection = async () => {
+    if (!identificationResult || !speciesChoice) return;
+
     setLoading(true);
+    let plantData: NewPlant | null = null;
+    let uploadUri: string | null = null;
+    let savings: string | null = null;
 
     try {
-      // Get the authentication token and user ID
-      const token = await AsyncStorage.getItem('userToken');
-      const userId = await AsyncStorage.getItem('userId');
+      // Get the user ID
+      const userId = user?.id;
       
-      if (!token || !userId) {
+      if (!userId) {
         throw new Error('Authentication information not found. Please log in.');
       }
 
-      // Convert image to base64 if it's a local URI
+      // Compress the photo that best shows the plant and send it as base64
+      const image = identificationResult.image_url;
       let imageData = "";
       if (image) {
         try {
-          console.log('Converting image to base64:', image);
-          const response = await fetch(image);
-          const blob = await response.blob();
-          imageData = await new Promise<string>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-              // Extract only the base64 part without the data:image/jpeg;base64, prefix
-              const result = reader.result as string;
-              const base64data = result.split(',')[1] || result;
-              resolve(base64data);
-            };
-            reader.readAsDataURL(blob);
-          });
+          const processed = await prepareImageForUpload(image, { base64: true });
+          imageData = processed.base64 || "";
+          uploadUri = processed.uri;
+          savings = describeSavings(processed);
           console.log('Successfully converted image to base64, length:', imageData.length);
         } catch (error) {
           console.error("Error converting image:", error);
@@ -194,14 +365,19 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
       }
 
       // Prepare the plant data for submission
-      const plantData = {
-        type: identificationResult.plant_type || 'Unknown',
+      plantData = {
+        type: speciesChoice.plant_type,
         user_id: userId,
         date_added: new Date().toISOString(),
-        name: identificationResult.plant_type || 'Unidentified Plant',
-        confidence: identificationResult.confidence || 0,
+        name: speciesChoice.plant_type,
+        confidence: speciesChoice.confidence,
         all_predictions: identificationResult.all_predictions || [],
         image_data: imageData, // Send the base64 image data instead of URL
+        model_prediction: {
+          plant_type: identificationResult.plant_type || 'Unknown',
+          confidence: identificationResult.confidence || 0,
+        },
+        species_source: speciesChoice.source,
       };
   
       // Log the plant data to be sent (without the full image data for readability)
@@ -211,61 +387,79 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
       });
   
       // Add the identified plant to the collection
-      const addToCollectionResponse = await fetch(`${API_URL}/api/plants/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(plantData)
-      });
-  
-      // Log the collection response details
-      console.log('Add to Collection Response:', {
-        status: addToCollectionResponse.status,
-        headers: Object.fromEntries(addToCollectionResponse.headers.entries()),
-      });
-
-      const responseText = await addToCollectionResponse.text();
-      let responseData;
-      try {
-        responseData = JSON.parse(responseText);
-        console.log('Response data:', responseData);
-      } catch (e) {
-        console.log('Response text (not JSON):', responseText);
-      }
-  
-      // Check if the response is successful
-      if (!addToCollectionResponse.ok) {
-        console.error('Collection error response:', responseText);
-        throw new Error(`Failed to add plant to collection: ${responseText}`);
+      const savedPlant = await api.createPlant(plantData);
+      console.log('Plant added to collection:', savedPlant?._id);
+      // Show it in the collection straight away; reload if the server didn't send it back
+      if (savedPlant?._id) {
+        addPlant(savedPlant);
+      } else {
+        fetchPlants();
       }
   
       // Show success message
-      showErrorMessage('Plant added to your collection!', 'Success');
-      
-      // Reset the screen
-      setImage(null);
-      setIdentificationResult(null);
-      setShowResultCard(false);
+      notify('success', savings ? `Plant added to your collection!\n${savings}` : 'Plant added to your collection!', {
+        action: viewCollectionAction,
+      });
+      await finishReview(true);
       
     } catch (error) {
+      // Queue the save so the plant isn't lost while offline
+      if (isOfflineError(error) && plantData) {
+        try {
+          const { image_data, ...plant } = plantData;
+          await enqueueSave(plant, uploadUri);
+          notify('info', "You're offline. The plant will be added to your collection when you're back online.", {
+            title: 'Saved for Later',
+            action: viewCollectionAction,
+          });
+          await finishReview(true);
+          return;
+        } catch (queueError) {
+          console.error('Could not queue plant save:', queueError);
+        }
+      }
+
       // Handle any errors
       console.error('Add to collection error:', error);
-      showErrorMessage(
-        error instanceof Error 
-          ? error.message 
-          : 'An unexpected error occurred when adding plant to collection'
-      );
+      notify('error', getErrorMessage(error, 'An unexpected error occurred when adding plant to collection'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Reset the screen after the result has been saved or queued
+  const finishReview = async (saved: boolean) => {
+    resetImages();
+    setIdentificationResult(null);
+    setShowResultCard(false);
+    resetSpeciesChoice();
+    if (reviewingId) {
+      await removeItem(reviewingId);
+      setReviewingId(null);
+    }
+    if (saved && historyId && user) {
+      await markHistorySaved(user.id, historyId).catch((error) =>
+        console.error('Error updating identification history:', error)
+      );
+    }
+    setHistoryId(null);
+  };
+
   const cancelIdentification = () => {
     // Reset states
     setIdentificationResult(null);
     setShowResultCard(false);
+    resetSpeciesChoice();
+  };
+
+  // Discarding a reviewed queued result drops it from the queue too
+  const discardIdentification = async () => {
+    if (reviewingId) {
+      await finishReview(false);
+      return;
+    }
+    setHistoryId(null);
+    cancelIdentification();
   };
 
   // Helper function to render a care info item if it exists (styled like PlantDetailScreen)
@@ -280,11 +474,156 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
     );
   };
 
+  // Thumbnails of the selected photos, with buttons to add more up to the limit
+  const renderPhotoStrip = () => (
+    <View style={styles.photoStripContainer}>
+      <View style={styles.photoStrip}>
+        {images.map((uri, index) => (
+          <TouchableOpacity
+            key={`${index}-${uri}`}
+            onPress={() => setSelectedIndex(index)}
+            style={[styles.thumbnail, index === selectedIndex && styles.selectedThumbnail]}
+          >
+            <Image source={{ uri }} style={styles.thumbnailImage} />
+            <TouchableOpacity
+              style={styles.removeThumbnail}
+              onPress={() => removeImage(index)}
+              disabled={loading}
+            >
+              <Text style={styles.removeThumbnailText}>×</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+        {images.length < MAX_IDENTIFY_PHOTOS && (
+          <>
+            <TouchableOpacity style={styles.addThumbnail} onPress={takePhoto} disabled={loading}>
+              <Text style={styles.addThumbnailText}>📷</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addThumbnail} onPress={pickImage} disabled={loading}>
+              <Text style={styles.addThumbnailText}>+</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+      <Text style={styles.helperText}>
+        {images.length} of {MAX_IDENTIFY_PHOTOS} photos. Add a leaf, flower or whole-plant shot for better results.
+      </Text>
+    </View>
+  );
+
+  // Shows how each photo scored for the top prediction when several were used
+  const renderPhotoContributions = () => {
+    const photos = identificationResult?.photos;
+    if (!photos || photos.length < 2) return null;
+
+    const bestIndex = identificationResult?.best_photo_index ?? 0;
+
+    return (
+      <View style={styles.infoCard}>
+        <Text style={styles.infoTitle}>Photos Used</Text>
+        <View style={styles.photoStrip}>
+          {photos.map((photo, index) => (
+            <View key={`${index}-${photo.uri}`} style={styles.contribution}>
+              <Image
+                source={{ uri: photo.uri }}
+                style={[styles.thumbnailImage, styles.thumbnail, index === bestIndex && styles.selectedThumbnail]}
+              />
+              <Text style={[styles.contributionText, index === bestIndex && styles.bestContributionText]}>
+                {(photo.top_confidence * 100).toFixed(0)}%
+              </Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.helperText}>
+          Photo {bestIndex + 1} contributed most to this identification.
+        </Text>
+      </View>
+    );
+  };
+
+  // Warning with retake tips when the chosen species is below the confidence threshold
+  const renderLowConfidenceWarning = () => {
+    if (!needsConfirmation || !speciesChoice) return null;
+
+    return (
+      <View style={styles.warningCard}>
+        <Text style={styles.warningTitle}>
+          Low confidence ({(speciesChoice.confidence * 100).toFixed(0)}%)
+        </Text>
+        <Text style={styles.warningText}>
+          This is below your {(getConfidenceThreshold() * 100).toFixed(0)}% threshold and may be wrong. For a better result:
+        </Text>
+        {RETAKE_TIPS.map((tip) => (
+          <Text key={tip} style={styles.warningTip}>• {tip}</Text>
+        ))}
+        <TouchableOpacity style={styles.retakeButton} onPress={cancelIdentification} disabled={loading}>
+          <Text style={styles.retakeText}>Retake Photos</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Every prediction as a selectable option with a confidence bar, plus manual entry
+  const renderSpeciesPicker = (predictions: ReturnType<typeof getPredictionOptions>) => (
+    <View style={styles.infoCard}>
+      <Text style={styles.infoTitle}>Choose Species</Text>
+
+      {predictions.map((pred) => {
+        const selected = manualSpecies === null && speciesChoice?.plant_type === pred.plant_type;
+        const percent = Math.round(pred.confidence * 100);
+        return (
+          <TouchableOpacity
+            key={pred.plant_type}
+            style={[styles.optionRow, selected && styles.selectedOptionRow]}
+            onPress={() => selectPrediction(pred.plant_type)}
+            disabled={loading}
+          >
+            <View style={styles.optionHeader}>
+              <View style={[styles.radio, selected && styles.radioSelected]} />
+              <Text style={styles.predictionName}>{pred.plant_type}</Text>
+              <Text style={styles.predictionConfidence}>{percent}%</Text>
+            </View>
+            <View style={styles.confidenceTrack}>
+              <View style={[styles.confidenceFill, { width: `${percent}%` }]} />
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity
+        style={[styles.optionRow, manualSpecies !== null && styles.selectedOptionRow]}
+        onPress={() => setManualSpecies(manualSpecies ?? '')}
+        disabled={loading}
+      >
+        <View style={styles.optionHeader}>
+          <View style={[styles.radio, manualSpecies !== null && styles.radioSelected]} />
+          <Text style={styles.predictionName}>Something else</Text>
+        </View>
+      </TouchableOpacity>
+      {manualSpecies !== null && (
+        <TextInput
+          style={styles.manualInput}
+          placeholder="Type the species name"
+          value={manualSpecies}
+          onChangeText={setManualSpecies}
+          editable={!loading}
+          autoFocus
+        />
+      )}
+    </View>
+  );
+
   const renderResultCard = () => {
     if (!showResultCard || !identificationResult) return null;
 
-    const predictions = identificationResult.all_predictions || [];
-    const careInfo = identificationResult.care_info || {};
+    const predictions = getPredictionOptions(identificationResult);
+    // Care info follows the chosen species; there is none for a manually typed name
+    const careInfo =
+      speciesChoice?.source === 'model'
+        ? identificationResult.care_info || {}
+        : speciesChoice?.source === 'alternative'
+          ? alternativeCareInfo || {}
+          : {};
     
     return (
       <View style={styles.resultsContainer}>
@@ -304,19 +643,25 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
           
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Plant Type:</Text>
-            <Text style={styles.infoValue}>{identificationResult.plant_type || 'Unknown'}</Text>
+            <Text style={styles.infoValue}>{speciesChoice?.plant_type || 'Unknown'}</Text>
           </View>
           
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Confidence:</Text>
             <Text style={styles.infoValue}>
-              {identificationResult.confidence 
-                ? `${(identificationResult.confidence * 100).toFixed(0)}%` 
-                : 'N/A'}
+              {speciesChoice?.source === 'manual'
+                ? 'Entered manually'
+                : speciesChoice?.confidence
+                  ? `${(speciesChoice.confidence * 100).toFixed(0)}%`
+                  : 'N/A'}
             </Text>
           </View>
         </View>
         
+        {renderLowConfidenceWarning()}
+        
+        {renderPhotoContributions()}
+        
         {/* Care instructions card */}
         {careInfo && Object.keys(careInfo).length > 0 && (
           <View style={styles.infoCard}>
@@ -338,21 +683,8 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
           </View>
         )}
 
-        {/* Other possibilities card */}
-        {predictions.length > 0 && (
-          <View style={styles.infoCard}>
-            <Text style={styles.infoTitle}>Other Possibilities</Text>
-            
-            {predictions.map((pred, index) => (
-              <View key={index} style={styles.infoRow}>
-                <Text style={styles.predictionName}>{pred.plant_type}</Text>
-                <Text style={styles.predictionConfidence}>
-                  {(pred.confidence * 100).toFixed(0)}%
-                </Text>
-              </View>
-            ))}
-          </View>
-        )}
+        {/* Species choice card */}
+        {renderSpeciesPicker(predictions)}
         
         {/* Action buttons */}
         <View style={styles.buttonContainer}>
@@ -364,13 +696,15 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
             {loading ? (
               <ActivityIndicator color="#fff" />
             ) : (
-              <Text style={styles.buttonText}>Save to Collection</Text>
+              <Text style={styles.buttonText}>
+                {needsConfirmation ? 'Save Anyway' : 'Save to Collection'}
+              </Text>
             )}
           </TouchableOpacity>
           
           <TouchableOpacity 
             style={styles.discardButton}
-            onPress={cancelIdentification}
+            onPress={discardIdentification}
             disabled={loading}
           >
             <Text style={styles.discardText}>Discard</Text>
@@ -386,17 +720,25 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
       contentContainerStyle={styles.scrollContentContainer}
     >
       <View style={styles.container}>
-        <Text style={styles.title}>Identify Plant</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Identify Plant</Text>
+          <TouchableOpacity style={styles.historyButton} onPress={() => navigation.navigate('History')}>
+            <Ionicons name="time-outline" size={26} color="#4CAF50" />
+          </TouchableOpacity>
+        </View>
         
         {!showResultCard ? (
           // Show upload area when result card is not visible
           <View style={styles.uploadArea}>
-            {image ? (
-              <Image source={{ uri: image }} style={styles.image} />
+            {images.length > 0 ? (
+              <Image source={{ uri: images[selectedIndex] }} style={styles.image} />
             ) : (
               <>
-                <TouchableOpacity style={styles.uploadButton} onPress={pickImage}>
-                  <Text style={styles.uploadText}>+ Upload Image</Text>
+                <TouchableOpacity style={styles.uploadButton} onPress={takePhoto}>
+                  <Text style={styles.uploadText}>📷 Take Photo</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.libraryButton} onPress={pickImage}>
+                  <Text style={styles.libraryText}>+ Choose from Library</Text>
                 </TouchableOpacity>
                 <Text style={styles.helperText}>
                   Take a photo or select an image from your gallery
@@ -409,7 +751,9 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
           renderResultCard()
         )}
         
-        {image && !showResultCard && (
+        {images.length > 0 && !showResultCard && renderPhotoStrip()}
+        
+        {images.length > 0 && !showResultCard && (
           <View style={styles.buttonContainer}>
             <TouchableOpacity 
               style={styles.identifyButton} 
@@ -419,12 +763,14 @@ const IdentifyScreen = ({ navigation }: IdentifyScreenProps) => {
               {loading ? (
                 <ActivityIndicator color="#fff" />
               ) : (
-                <Text style={styles.buttonText}>Identify Plant</Text>
+                <Text style={styles.buttonText}>
+                  {images.length > 1 ? `Identify from ${images.length} Photos` : 'Identify Plant'}
+                </Text>
               )}
             </TouchableOpacity>
             <TouchableOpacity 
               style={styles.cancelButton}
-              onPress={() => setImage(null)}
+              onPress={resetImages}
               disabled={loading}
             >
               <Text style={styles.cancelText}>Cancel</Text>
@@ -450,6 +796,17 @@ const styles = StyleSheet.create({
     padding: 20,
     width: '100%',
   },
+  titleRow: {
+    width: '100%',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  historyButton: {
+    position: 'absolute',
+    right: 0,
+    top: 8,
+    padding: 4,
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -477,16 +834,97 @@ const styles = StyleSheet.create({
     backgroundColor: '#4CAF50',
     padding: 15,
     borderRadius: 5,
-    marginBottom: 20,
+    marginBottom: 12,
   },
   uploadText: {
     color: '#fff',
     fontSize: 18,
   },
+  libraryButton: {
+    padding: 15,
+    borderRadius: 5,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  libraryText: {
+    color: '#4CAF50',
+    fontSize: 18,
+  },
   helperText: {
     color: '#666',
     textAlign: 'center',
   },
+  // Photo strip
+  photoStripContainer: {
+    width: '100%',
+    marginTop: 12,
+  },
+  photoStrip: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  selectedThumbnail: {
+    borderColor: '#4CAF50',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 4,
+  },
+  removeThumbnail: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#ff6b6b',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeThumbnailText: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 16,
+    fontWeight: 'bold',
+  },
+  addThumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ddd',
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  addThumbnailText: {
+    fontSize: 24,
+    color: '#4CAF50',
+  },
+  contribution: {
+    alignItems: 'center',
+  },
+  contributionText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  bestContributionText: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
   // Results section
   resultsContainer: {
     width: '100%',
@@ -557,15 +995,102 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     color: '#33691e',
   },
+  // Low-confidence warning
+  warningCard: {
+    backgroundColor: '#fff8e1',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ffb300',
+  },
+  warningTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#e65100',
+    marginBottom: 6,
+  },
+  warningText: {
+    fontSize: 15,
+    color: '#5d4037',
+    marginBottom: 6,
+  },
+  warningTip: {
+    fontSize: 14,
+    color: '#5d4037',
+    marginTop: 2,
+  },
+  retakeButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#e65100',
+  },
+  retakeText: {
+    color: '#e65100',
+    fontSize: 15,
+  },
   // Predictions
   predictionName: {
     fontSize: 16,
+    flex: 1,
   },
   predictionConfidence: {
     fontSize: 16,
     fontWeight: '500',
     color: '#4CAF50',
   },
+  optionRow: {
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    marginBottom: 4,
+  },
+  selectedOptionRow: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#f1f8e9',
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    marginRight: 10,
+  },
+  radioSelected: {
+    borderColor: '#4CAF50',
+    backgroundColor: '#4CAF50',
+  },
+  confidenceTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e0e0e0',
+    marginTop: 8,
+    marginLeft: 28,
+    overflow: 'hidden',
+  },
+  confidenceFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+  },
+  manualInput: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 5,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginTop: 8,
+  },
   // Action buttons
   buttonContainer: {
     width: '100%',
@@ -6,16 +6,22 @@ import {
   StyleSheet, 
   ScrollView, 
   TouchableOpacity, 
-  Alert,
   ActivityIndicator,
-  Image,
-  Platform
+  Image
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { RootStackParamList } from '../types/navigation';
+import { api, getErrorMessage, resolveImageUri } from '../api/client';
+import { usePlantCollection } from '../context/PlantCollectionContext';
+import { useNotifications } from '../context/NotificationContext';
+import { PlantEditForm } from '../components/PlantEditForm';
+import { PlantJournal } from '../components/PlantJournal';
+import { CareTaskList } from '../components/CareTaskList';
+import { CareLog } from '../components/CareLog';
+import { useCareSchedule } from '../context/CareScheduleContext';
+import { PlantUpdate } from '../types/api';
 
 // Define prediction type
 export type Prediction = {
@@ -42,24 +48,28 @@ export type Plant = {
   image_url?: string;
   confidence: number;
   all_predictions?: Prediction[];
+  model_prediction?: Prediction; // Top prediction when the user chose a different species
+  acquired_date?: string | null; // YYYY-MM-DD the user got the plant, if they've said
+  location?: string | null; // Room or spot it lives in, e.g. "Kitchen"
+  notes?: string;
 };
 
 // Use separate types for navigation and route for better compatibility
 type PlantDetailRouteProp = RouteProp<RootStackParamList, 'PlantDetail'>;
 type PlantDetailNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-// API base URL
-const API_URL = 'http://127.0.0.1:8000';
-
 // Export as a default function component without parameter destructuring
 const PlantDetailScreen = () => {
   // Use hooks to get navigation and route
   const navigation = useNavigation<PlantDetailNavigationProp>();
   const route = useRoute<PlantDetailRouteProp>();
   
-  // Access the plant from route params
-  const { plant } = route.params;
-  const [isDeleting, setIsDeleting] = useState(false);
+  // Start from the plant in route params; edits replace it locally and in the shared collection
+  const [plant, setPlant] = useState<Plant>(route.params.plant);
+  const [editing, setEditing] = useState(false);
+  const { deletePlant, updatePlant } = usePlantCollection();
+  const { notify } = useNotifications();
+  const { syncPlant } = useCareSchedule();
   const [careInfo, setCareInfo] = useState<CareInfo | null>(null);
   const [loadingCare, setLoadingCare] = useState(true);
   const [careError, setCareError] = useState<string | null>(null);
@@ -72,10 +82,10 @@ const PlantDetailScreen = () => {
   // Format date
   const formattedDate = new Date(plant.date_added).toLocaleDateString();
   
-  // Fetch care information when component mounts
+  // Fetch care information when component mounts, and again if the species is edited
   useEffect(() => {
     fetchCareInformation();
-  }, []);
+  }, [plant.type]);
   
   // Function to fetch care information for this plant type
   const fetchCareInformation = async () => {
@@ -83,32 +93,10 @@ const PlantDetailScreen = () => {
       setLoadingCare(true);
       setCareError(null);
       
-      // Get auth token
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        throw new Error('Authentication token not found');
-      }
-      
       console.log(`Fetching care info for: ${plant.type}`);
       
       // Make API request to get care information for this plant type
-      const response = await fetch(`${API_URL}/api/plant-species/${encodeURIComponent(plant.type)}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      // Handle non-200 responses
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error fetching care information:', errorText);
-        throw new Error('Failed to retrieve care information');
-      }
-      
-      // Parse the response
-      const speciesData = await response.json();
+      const speciesData = await api.getSpecies(plant.type);
       console.log('Species data received:', speciesData);
       
       // Extract care information
@@ -123,33 +111,17 @@ const PlantDetailScreen = () => {
       
       // Update state with care information
       setCareInfo(careInformation);
+      // Keep the watering/fertilizing schedule in line with the (possibly edited) species
+      syncPlant(plant, careInformation);
       
     } catch (error) {
       console.error('Failed to fetch care information:', error);
-      setCareError(error instanceof Error ? error.message : 'Unknown error');
+      setCareError(getErrorMessage(error, 'Failed to retrieve care information'));
     } finally {
       setLoadingCare(false);
     }
   };
   
-  // Function to get proper image URI
-  const getImageUri = (imageUrl: string | undefined): string => {
-    if (!imageUrl) return '';
-    
-    // If it starts with 'http', it's already a full URL
-    if (imageUrl.startsWith('http')) {
-      return imageUrl;
-    }
-    
-    // If it starts with '/', it's a server path that needs the API_URL prepended
-    if (imageUrl.startsWith('/')) {
-      return `${API_URL}${imageUrl}`;
-    }
-    
-    // Otherwise, just return the URL as is (could be a local file URI)
-    return imageUrl;
-  };
-  
   // Helper function to render a care info item if it exists - updated to match Plant Details style
   const renderCareInfoItem = (label: string, value?: string) => {
     if (!value) return null;
@@ -162,79 +134,18 @@ const PlantDetailScreen = () => {
     );
   };
   
-  // Handle deletion
-  const handleDelete = async () => {
-    // Platform-specific confirmation
-    const confirmDeletion = () => {
-      if (Platform.OS === 'web') {
-        return window.confirm(
-          `Are you sure you want to remove "${plant.name || plant.type}" from your collection?`
-        );
-      }
-      
-      return new Promise((resolve) => {
-        Alert.alert(
-          'Confirm Deletion',
-          `Are you sure you want to remove "${plant.name || plant.type}" from your collection?`,
-          [
-            {
-              text: 'Cancel',
-              style: 'cancel',
-              onPress: () => resolve(false)
-            },
-            {
-              text: 'Delete',
-              style: 'destructive',
-              onPress: () => resolve(true)
-              
-            }
-          ],
-          { cancelable: true }
-        );
-      });
-    };
-    
-    try {
-      const isConfirmed = await confirmDeletion();
-      
-      if (!isConfirmed) {
-        return;
-      }
-      
-      setIsDeleting(true);
-      
-      // Get auth token
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (!token) {
-        throw new Error('Authentication token not found. Please log in again.');
-      }
-      
-      // Delete the plant
-      const response = await fetch(`${API_URL}/api/plants/${plant._id}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      navigation.goBack();
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to delete plant: ${errorText}`);
-      }
-      
-    } catch (error) {
-      console.error('Error deleting plant:', error);
-      Alert.alert(
-        'Error', 
-        error instanceof Error ? error.message : 'Failed to delete plant'
-      );
-    } finally {
-      setIsDeleting(false);
-    }
+  // Deletion is optimistic: the collection hides the plant at once and offers Undo before
+  // the DELETE is sent, so there's no confirmation dialog
+  const handleDelete = () => {
+    deletePlant(plant);
+    navigation.goBack();
+  };
+  
+  const handleSaveEdit = async (changes: PlantUpdate) => {
+    const updated = await updatePlant(plant._id, changes);
+    setPlant(updated);
+    setEditing(false);
+    notify('success', 'Plant details updated');
   };
   
   // Retry fetching care information
@@ -253,15 +164,21 @@ const PlantDetailScreen = () => {
           <Ionicons name="arrow-back" size={24} color="#4CAF50" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>{plant.name || plant.type}</Text>
-        <View style={styles.placeholderView} />
+        {editing ? (
+          <View style={styles.placeholderView} />
+        ) : (
+          <TouchableOpacity style={styles.editButton} onPress={() => setEditing(true)}>
+            <Ionicons name="create-outline" size={24} color="#4CAF50" />
+          </TouchableOpacity>
+        )}
       </View>
       
-      <ScrollView contentContainerStyle={styles.content}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
         {/* Hero section */}
         <View style={styles.heroSection}>
           {plant.image_url ? (
             <Image 
-              source={{ uri: getImageUri(plant.image_url) }}
+              source={{ uri: resolveImageUri(plant.image_url) }}
               style={styles.plantImage}
               resizeMode="cover"
             />
@@ -274,6 +191,10 @@ const PlantDetailScreen = () => {
           <Text style={styles.plantType}>{plant.type}</Text>
         </View>
         
+        {editing && (
+          <PlantEditForm plant={plant} onSave={handleSaveEdit} onCancel={() => setEditing(false)} />
+        )}
+        
         {/* Information cards */}
         <View style={styles.infoCard}>
           <Text style={styles.infoTitle}>Plant Details</Text>
@@ -288,12 +209,51 @@ const PlantDetailScreen = () => {
             <Text style={styles.infoValue}>{formattedDate}</Text>
           </View>
           
+          {!!plant.location && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Location:</Text>
+              <Text style={styles.infoValue}>{plant.location}</Text>
+            </View>
+          )}
+          
+          {!!plant.acquired_date && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Acquired:</Text>
+              <Text style={styles.infoValue}>
+                {new Date(`${plant.acquired_date}T00:00:00`).toLocaleDateString()}
+              </Text>
+            </View>
+          )}
+          
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Identification Confidence:</Text>
             <Text style={styles.infoValue}>{confidence}</Text>
           </View>
+
+          {plant.model_prediction && plant.model_prediction.plant_type !== plant.type && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Originally Identified As:</Text>
+              <Text style={styles.infoValue}>{plant.model_prediction.plant_type}</Text>
+            </View>
+          )}
         </View>
         
+        {plant.notes ? (
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>Notes</Text>
+            <Text style={styles.notesText}>{plant.notes}</Text>
+          </View>
+        ) : null}
+        
+        {/* Recurring care tasks with reminders */}
+        <CareTaskList plantId={plant._id} />
+        
+        {/* Care actually given, with quick-log buttons */}
+        <CareLog plantId={plant._id} />
+        
+        {/* Dated notes and photos, newest first */}
+        <PlantJournal plantId={plant._id} />
+        
         {/* Care instructions section */}
         <View style={styles.infoCard}>
           <Text style={styles.infoTitle}>Care Instructions</Text>
@@ -353,16 +313,9 @@ const PlantDetailScreen = () => {
         <TouchableOpacity 
           style={styles.deleteButton} 
           onPress={handleDelete}
-          disabled={isDeleting}
         >
-          {isDeleting ? (
-            <ActivityIndicator color="#fff" />
-          ) : (
-            <>
-              <Ionicons name="trash-outline" size={20} color="#fff" />
-              <Text style={styles.deleteButtonText}>Remove from Collection</Text>
-            </>
-          )}
+          <Ionicons name="trash-outline" size={20} color="#fff" />
+          <Text style={styles.deleteButtonText}>Remove from Collection</Text>
         </TouchableOpacity>
       </ScrollView>
     </View>
@@ -395,6 +348,9 @@ const styles = StyleSheet.create({
   placeholderView: {
     width: 40, // Balance the header
   },
+  editButton: {
+    padding: 8,
+  },
   content: {
     padding: 16,
   },
@@ -470,6 +426,11 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     paddingLeft: 8,
   },
+  notesText: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#333',
+  },
   predictionRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -4,16 +4,27 @@ import {
   Text, 
   StyleSheet, 
   TouchableOpacity, 
-  Alert, 
-  Platform, 
   ActivityIndicator 
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MainTabParamList, RootStackParamList } from '../types/navigation';
 import { useFocusEffect } from '@react-navigation/native';
+import { api, getErrorMessage } from '../api/client';
+import { useAuth } from '../context/AuthContext';
+import { useNotifications } from '../context/NotificationContext';
+import { usePlantCollection } from '../context/PlantCollectionContext';
+import { useCareSchedule } from '../context/CareScheduleContext';
+import { exportCareCalendar } from '../utils/calendarExport';
+import { confirmAction } from '../utils/dialogs';
+import {
+  CONFIDENCE_THRESHOLD_STEP,
+  MAX_CONFIDENCE_THRESHOLD,
+  MIN_CONFIDENCE_THRESHOLD,
+  getConfidenceThreshold,
+  setConfidenceThreshold
+} from '../config/confidence';
 
 type ProfileScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabParamList, 'Profile'>,
@@ -24,41 +35,19 @@ type ProfileScreenProps = {
   navigation: ProfileScreenNavigationProp;
 };
 
-// Define your API URL
-const API_URL = 'http://127.0.0.1:8000';
-
 const ProfileScreen = ({ navigation }: ProfileScreenProps) => {
+  const { user, signOut } = useAuth();
+  const { notify } = useNotifications();
+  const username = user?.username || '';
   const [loading, setLoading] = useState(false);
-  const [username, setUsername] = useState<string>('');
-  const [plantCount, setPlantCount] = useState<number>(0);
+  const { plants, fetchPlants } = usePlantCollection();
+  const plantCount = plants.length;
+  const [threshold, setThreshold] = useState(getConfidenceThreshold());
+  const { tasks } = useCareSchedule();
 
   const fetchUserData = async () => {
-    try {
-      // Get username from storage
-      const storedUsername = await AsyncStorage.getItem('username');
-      if (storedUsername) {
-        setUsername(storedUsername);
-      }
-      
-      // Get token for authorized requests
-      const token = await AsyncStorage.getItem('userToken');
-      
-      if (token) {
-        // Fetch plant count
-        const response = await fetch(`${API_URL}/api/plants`, {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        });
-        
-        if (response.ok) {
-          const plants = await response.json();
-          setPlantCount(plants.length);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching user data:', error);
-    }
+    // Plant count comes from the shared collection, which skips plants waiting to be deleted
+    await fetchPlants();
   };
 
   // Refresh data whenever the screen comes into focus
@@ -77,56 +66,42 @@ const ProfileScreen = ({ navigation }: ProfileScreenProps) => {
     fetchUserData();
   }, []);
 
+  const changeThreshold = async (delta: number) => {
+    try {
+      setThreshold(await setConfidenceThreshold(threshold + delta));
+    } catch (error) {
+      console.error('Error saving confidence threshold:', error);
+    }
+  };
+
+  const handleExportCalendar = async () => {
+    try {
+      await exportCareCalendar(tasks, 'Plant care');
+    } catch (error) {
+      console.error('Error exporting care calendar:', error);
+      notify('error', getErrorMessage(error, 'Failed to export care calendar'));
+    }
+  };
+
   const handleLogout = async () => {
     try {
-      // Clear all authentication tokens
-      await AsyncStorage.removeItem('userToken');
-      await AsyncStorage.removeItem('userId');
-      await AsyncStorage.removeItem('username');
-      
-      // Navigate to Auth screen
-      navigation.replace('Auth');
+      // Clear all authentication tokens; the navigator returns to the Auth screen
+      await signOut();
     } catch (error) {
       console.error('Error logging out:', error);
-      Alert.alert('Error', 'Failed to log out');
+      notify('error', 'Failed to log out');
     }
   };
 
   const handleDeleteAccount = async () => {
-    // Platform-specific confirmation
-    const confirmDeletion = () => {
-      // Web uses window.confirm, others use Alert.alert
-      if (Platform.OS === 'web') {
-        return window.confirm(
-          'Are you absolutely sure you want to delete your account? This action CANNOT be undone.'
-        );
-      }
-      
-      // For mobile platforms, return a Promise that resolves based on Alert choice
-      return new Promise((resolve) => {
-        Alert.alert(
-          'Confirm Account Deletion',
-          'Are you absolutely sure you want to delete your account? This action CANNOT be undone.',
-          [
-            {
-              text: 'Cancel',
-              style: 'cancel',
-              onPress: () => resolve(false)
-            },
-            {
-              text: 'Delete',
-              style: 'destructive',
-              onPress: () => resolve(true)
-            }
-          ],
-          { cancelable: true }
-        );
-      });
-    };
-
     try {
       // Show confirmation dialog
-      const isConfirmed = await confirmDeletion();
+      const isConfirmed = await confirmAction({
+        title: 'Confirm Account Deletion',
+        message: 'Are you absolutely sure you want to delete your account? This action CANNOT be undone.',
+        confirmText: 'Delete',
+        destructive: true,
+      });
       
       // Exit if not confirmed
       if (!isConfirmed) {
@@ -137,83 +112,40 @@ const ProfileScreen = ({ navigation }: ProfileScreenProps) => {
       // Start loading state
       setLoading(true);
 
-      // Retrieve the authentication token
-      const token = await AsyncStorage.getItem('userToken');
-      
-      // Validate token existence
-      if (!token) {
-        throw new Error('No authentication token found');
-      }
-
       // Perform API call to delete account
-      const response = await fetch(`${API_URL}/api/users/me`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      // Log full response details for debugging
-      console.log('Delete account response status:', response.status);
-      
-      // Check if the response is successful
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Account deletion failed: ${errorText}`);
-      }
-
-      // Clear all stored user data
-      await AsyncStorage.multiRemove([
-        'userToken', 
-        'userId', 
-        'username'
-      ]);
+      await api.deleteMe();
 
-      // Navigate back to authentication screen
-      navigation.replace('Auth');
+      // Clear all stored user data and go back to authentication screen
+      await signOut();
 
-      // Show success message differently based on platform
-      if (Platform.OS === 'web') {
-        alert('Your account has been successfully deleted.');
-      } else {
-        Alert.alert(
-          'Account Deleted', 
-          'Your account has been successfully deleted.'
-        );
-      }
+      notify('success', 'Your account has been successfully deleted.');
 
     } catch (error) {
       // Handle any errors during the deletion process
       console.error('Account deletion error:', error);
-      
-      // Show error message differently based on platform
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unexpected error occurred while deleting your account.';
-
-      if (Platform.OS === 'web') {
-        alert(errorMessage);
-      } else {
-        Alert.alert(
-          'Deletion Failed', 
-          errorMessage
-        );
-      }
+      notify(
+        'error',
+        getErrorMessage(error, 'An unexpected error occurred while deleting your account.'),
+        { title: 'Deletion Failed' }
+      );
     } finally {
       // Ensure loading state is reset
       setLoading(false);
     }
-
-    
   };
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <View style={styles.avatar}>
+        {/* Long-press the avatar to open the hidden developer settings */}
+        <TouchableOpacity
+          style={styles.avatar}
+          activeOpacity={1}
+          delayLongPress={1500}
+          onLongPress={() => navigation.navigate('DeveloperSettings')}
+        >
           <Text style={styles.avatarText}>{username ? username[0].toUpperCase() : 'U'}</Text>
-        </View>
+        </TouchableOpacity>
         <Text style={styles.username}>{username || 'Username'}</Text>
       </View>
 
@@ -222,6 +154,45 @@ const ProfileScreen = ({ navigation }: ProfileScreenProps) => {
         <Text style={styles.infoValue}>{plantCount}</Text>
       </View>
 
+      {/* Identifications below this confidence show a warning and need confirming before saving */}
+      <View style={styles.settingContainer}>
+        <View style={styles.settingText}>
+          <Text style={styles.infoLabel}>Low-confidence warning</Text>
+          <Text style={styles.settingHint}>Warn when a match is below this confidence</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => changeThreshold(-CONFIDENCE_THRESHOLD_STEP)}
+          disabled={threshold <= MIN_CONFIDENCE_THRESHOLD}
+        >
+          <Text style={styles.stepperText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{Math.round(threshold * 100)}%</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => changeThreshold(CONFIDENCE_THRESHOLD_STEP)}
+          disabled={threshold >= MAX_CONFIDENCE_THRESHOLD}
+        >
+          <Text style={styles.stepperText}>+</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={handleExportCalendar}
+        disabled={loading || tasks.length === 0}
+      >
+        <Text style={styles.secondaryButtonText}>Export Care Calendar</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity 
+        style={styles.secondaryButton} 
+        onPress={() => navigation.navigate('ChangePassword')}
+        disabled={loading}
+      >
+        <Text style={styles.secondaryButtonText}>Change Password</Text>
+      </TouchableOpacity>
+
       <TouchableOpacity 
         style={styles.logoutButton} 
         onPress={handleLogout}
@@ -292,6 +263,59 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  settingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    width: '100%',
+    padding: 20,
+    borderRadius: 10,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    color: '#4CAF50',
+    fontSize: 20,
+    lineHeight: 22,
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    width: 48,
+    textAlign: 'center',
+  },
+  secondaryButton: {
+    padding: 15,
+    borderRadius: 5,
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    backgroundColor: '#fff',
+  },
+  secondaryButtonText: {
+    color: '#4CAF50',
+    fontSize: 18,
+  },
   logoutButton: {
     backgroundColor: '#4CAF50',
     padding: 15,
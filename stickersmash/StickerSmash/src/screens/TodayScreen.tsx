@@ -0,0 +1,235 @@
+// src/screens/TodayScreen.tsx
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SectionList,
+  Image,
+  ActivityIndicator
+} from 'react-native';
+import { CompositeNavigationProp, useFocusEffect } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { MainTabParamList, RootStackParamList } from '../types/navigation';
+import { resolveImageUri } from '../api/client';
+import { useCareSchedule } from '../context/CareScheduleContext';
+import { useNotifications } from '../context/NotificationContext';
+import { usePlantCollection } from '../context/PlantCollectionContext';
+import { CareTask, getDaysUntilDue, getDueTasks } from '../storage/careSchedule';
+import { CARE_TASKS, CARE_TASK_TYPES, formatDueIn } from '../utils/careFrequency';
+
+type TodayScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<MainTabParamList, 'Today'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
+
+type TodayScreenProps = {
+  navigation: TodayScreenNavigationProp;
+};
+
+const TodayScreen = ({ navigation }: TodayScreenProps) => {
+  const { tasks, loading, markDone } = useCareSchedule();
+  const { plants } = usePlantCollection();
+  const { notify } = useNotifications();
+  // Re-read the date on focus so the list rolls over if the app stays open past midnight
+  const [today, setToday] = useState(new Date());
+
+  useFocusEffect(
+    useCallback(() => {
+      setToday(new Date());
+    }, [])
+  );
+
+  const dueTasks = getDueTasks(tasks, today);
+  const sections = CARE_TASK_TYPES
+    .map((type) => ({ type, data: dueTasks.filter((task) => task.type === type) }))
+    .filter((section) => section.data.length > 0);
+
+  const handleDone = async (task: CareTask) => {
+    await markDone(task.id);
+    notify('success', `${CARE_TASKS[task.type].label} ${task.plantName}: done`);
+  };
+
+  const handleOpenPlant = (task: CareTask) => {
+    const plant = plants.find((p) => p._id === task.plantId);
+    if (plant) {
+      navigation.navigate('PlantDetail', { plant });
+    }
+  };
+
+  const renderTask = ({ item }: { item: CareTask }) => {
+    const plant = plants.find((p) => p._id === item.plantId);
+    const daysUntilDue = getDaysUntilDue(item, today);
+
+    return (
+      <TouchableOpacity style={styles.taskCard} onPress={() => handleOpenPlant(item)}>
+        {plant?.image_url ? (
+          <Image source={{ uri: resolveImageUri(plant.image_url) }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.placeholderImage]}>
+            <Text style={styles.placeholderText}>🌿</Text>
+          </View>
+        )}
+
+        <View style={styles.taskDetails}>
+          <Text style={styles.plantName}>{item.plantName}</Text>
+          <Text style={[styles.dueText, daysUntilDue < 0 && styles.overdueText]}>
+            {formatDueIn(daysUntilDue)}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={styles.doneButton} onPress={() => handleDone(item)}>
+          <Ionicons name="checkmark" size={18} color="#fff" />
+          <Text style={styles.doneText}>Done</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContent}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {sections.length === 0 ? (
+        <View style={styles.centerContent}>
+          <Text style={styles.emptyIcon}>🌱</Text>
+          <Text style={styles.emptyText}>All caught up!</Text>
+          <Text style={styles.emptySubtitle}>
+            {tasks.length > 0
+              ? 'None of your plants need care today'
+              : 'Add plants to your collection to get care reminders'}
+          </Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTask}
+          renderSectionHeader={({ section }) => (
+            <View style={styles.sectionHeader}>
+              <Ionicons name={CARE_TASKS[section.type].icon} size={20} color="#4CAF50" />
+              <Text style={styles.sectionTitle}>{CARE_TASKS[section.type].label}</Text>
+              <Text style={styles.sectionCount}>{section.data.length}</Text>
+            </View>
+          )}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#f5f5f5',
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 18,
+    color: '#666',
+    marginBottom: 10,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginLeft: 8,
+    flex: 1,
+  },
+  sectionCount: {
+    fontSize: 14,
+    color: '#666',
+  },
+  taskCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.2,
+    shadowRadius: 1,
+    elevation: 2,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+  },
+  placeholderImage: {
+    backgroundColor: '#e0f2e9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 22,
+  },
+  taskDetails: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  plantName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  dueText: {
+    fontSize: 13,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  overdueText: {
+    color: '#d32f2f',
+  },
+  doneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#4CAF50',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 5,
+  },
+  doneText: {
+    color: '#fff',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+});
+
+export default TodayScreen;
@@ -0,0 +1,38 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { getCareStats, mergeCareEvents } from '../careLog';
+
+const event = (id: string, date: Date, type: 'water' | 'fertilize' = 'water') => ({
+  _id: id,
+  plant_id: 'p1',
+  type,
+  date: date.toISOString(),
+});
+
+it('works out the last and average interval for one plant and task type', () => {
+  const events = [
+    event('a', new Date(2024, 4, 1, 9)),
+    event('b', new Date(2024, 4, 7, 20)),
+    event('c', new Date(2024, 4, 13, 8)),
+    event('f', new Date(2024, 4, 14, 8), 'fertilize'),
+  ];
+
+  expect(getCareStats(events, 'p1', 'water', new Date(2024, 4, 18, 12))).toEqual({
+    count: 3,
+    lastDate: events[2].date,
+    daysSinceLast: 5,
+    averageIntervalDays: 6,
+  });
+  expect(getCareStats(events, 'p2', 'water').count).toBe(0);
+});
+
+it('keeps events logged offline when merging the server list', () => {
+  const merged = mergeCareEvents(
+    [event('server', new Date(2024, 4, 1))],
+    [{ ...event('local', new Date(2024, 4, 2)), pending: true }, event('stale', new Date(2024, 4, 3))]
+  );
+
+  expect(merged.map((e) => e._id)).toEqual(['local', 'server']);
+});
@@ -0,0 +1,64 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import {
+  addDays,
+  completeTask,
+  countOverdueTasks,
+  getDaysUntilDue,
+  getDueTasks,
+  getTaskDueDate,
+  overrideTaskInterval,
+  snoozeTask,
+  syncPlantTasks,
+} from '../careSchedule';
+
+const plant = { _id: 'p1', name: 'Kitchen fern', type: 'Boston fern' };
+const today = new Date(2024, 2, 30); // Across the March daylight saving change in many time zones
+
+it('adds calendar days across month ends', () => {
+  expect(addDays('2024-03-30', 3)).toBe('2024-04-02');
+  expect(addDays('2024-01-31', 29)).toBe('2024-02-29');
+});
+
+it('creates tasks due one interval out and keeps progress when intervals change', () => {
+  const [water] = syncPlantTasks([], plant, { water: 10 }, today);
+  expect(getTaskDueDate(water)).toBe('2024-04-09');
+
+  const done = completeTask(water, new Date(2024, 3, 1, 18));
+  const [resynced] = syncPlantTasks([done], { ...plant, name: '' }, { water: 7 }, today);
+
+  expect(resynced.plantName).toBe('Boston fern');
+  expect(resynced.lastDoneAt).toBe(done.lastDoneAt);
+  expect(getTaskDueDate(resynced)).toBe('2024-04-08');
+});
+
+it('drops tasks the species no longer needs', () => {
+  const tasks = syncPlantTasks([], plant, { water: 7, mist: 3 }, today);
+  expect(syncPlantTasks(tasks, plant, { water: 7 }, today).map((task) => task.type)).toEqual(['water']);
+});
+
+it('snoozes overdue tasks from today and overrides the interval per plant', () => {
+  const [water] = syncPlantTasks([], plant, { water: 7 }, new Date(2024, 2, 1));
+  expect(getDaysUntilDue(water, today)).toBe(-22);
+
+  const snoozed = snoozeTask(water, 1, today);
+  expect(getTaskDueDate(snoozed)).toBe('2024-03-31');
+
+  const custom = overrideTaskInterval(snoozed, 3);
+  expect(custom.snoozedUntil).toBeNull();
+  expect(getTaskDueDate(custom)).toBe('2024-03-04');
+  expect(overrideTaskInterval(custom, null).overrideDays).toBeNull();
+});
+
+it('lists tasks due today or overdue, most overdue first', () => {
+  const tasks = [
+    ...syncPlantTasks([], { ...plant, _id: 'today' }, { water: 7 }, new Date(2024, 2, 23)),
+    ...syncPlantTasks([], { ...plant, _id: 'late' }, { water: 7 }, new Date(2024, 2, 20)),
+    ...syncPlantTasks([], { ...plant, _id: 'later' }, { water: 7 }, today),
+  ];
+
+  expect(getDueTasks(tasks, today).map((task) => task.plantId)).toEqual(['late', 'today']);
+  expect(countOverdueTasks(tasks, today)).toBe(1);
+});
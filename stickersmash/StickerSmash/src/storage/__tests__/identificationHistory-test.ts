@@ -0,0 +1,56 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../utils/imageProcessing', () => ({
+  DEFAULT_IMAGE_PROCESSING: { maxDimension: 1280, quality: 0.7 },
+  prepareImageForUpload: jest.fn((uri: string, options: { maxDimension: number }) =>
+    Promise.resolve({ uri: `${uri}@${options.maxDimension}` })
+  ),
+}));
+jest.mock('../imageFiles', () => ({
+  persistImage: jest.fn((uri: string) => Promise.resolve(`stored:${uri}`)),
+  deleteImages: jest.fn(() => Promise.resolve()),
+}));
+
+import {
+  HISTORY_LIMIT,
+  addHistoryEntry,
+  deleteHistoryEntry,
+  loadHistory,
+  markHistorySaved,
+} from '../identificationHistory';
+import { deleteImages } from '../imageFiles';
+
+const result = { plant_type: 'Fern', confidence: 0.8, all_predictions: [] };
+
+it('keeps the newest entries up to the limit', async () => {
+  for (let i = 0; i < HISTORY_LIMIT + 2; i++) {
+    await addHistoryEntry('user-1', { ...result, confidence: i / 100 });
+  }
+
+  const history = await loadHistory('user-1');
+  expect(history).toHaveLength(HISTORY_LIMIT);
+  expect(history[0].result.confidence).toBe((HISTORY_LIMIT + 1) / 100);
+});
+
+it('marks entries as saved and deletes them', async () => {
+  const entry = await addHistoryEntry('user-2', result);
+  expect(entry.saved).toBe(false);
+
+  await markHistorySaved('user-2', entry.id);
+  expect((await loadHistory('user-2'))[0].saved).toBe(true);
+
+  await deleteHistoryEntry('user-2', entry.id);
+  expect(await loadHistory('user-2')).toEqual([]);
+});
+
+it('keeps an upload-sized photo for saving and a thumbnail for the list', async () => {
+  const entry = await addHistoryEntry('user-3', { ...result, image_url: 'file://photo.jpg' });
+
+  expect(entry.imageUri).toBe('stored:file://photo.jpg@640');
+  expect(entry.photoUri).toBe('stored:file://photo.jpg@1280');
+  expect(entry.result.image_url).toBe(entry.photoUri);
+
+  await deleteHistoryEntry('user-3', entry.id);
+  expect(deleteImages).toHaveBeenLastCalledWith([entry.imageUri, entry.photoUri]);
+});
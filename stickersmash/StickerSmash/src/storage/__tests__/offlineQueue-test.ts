@@ -0,0 +1,29 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { PendingItem, getRetryDelay, loadQueue, saveQueue } from '../offlineQueue';
+
+it('backs off exponentially up to ten minutes', () => {
+  expect(getRetryDelay(1)).toBe(5000);
+  expect(getRetryDelay(2)).toBe(10000);
+  expect(getRetryDelay(4)).toBe(40000);
+  expect(getRetryDelay(20)).toBe(10 * 60 * 1000);
+});
+
+it('keeps a separate queue per user', async () => {
+  const item: PendingItem = {
+    id: 'a',
+    kind: 'identify',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    imageUris: ['file://a.jpg'],
+  };
+
+  await saveQueue('user-1', [item]);
+
+  expect(await loadQueue('user-1')).toEqual([item]);
+  expect(await loadQueue('user-2')).toEqual([]);
+});
@@ -0,0 +1,27 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { clearCachedJournal, loadCachedJournal, saveCachedJournal, sortJournalEntries } from '../plantJournal';
+
+const entry = (id: string, date: string) => ({ _id: id, plant_id: 'p1', date, text: id, image_urls: [] });
+
+it('orders entries newest first', () => {
+  const sorted = sortJournalEntries([
+    entry('old', '2024-01-01T12:00:00Z'),
+    entry('new', '2024-03-01T12:00:00Z'),
+    entry('mid', '2024-02-01T12:00:00Z'),
+  ]);
+
+  expect(sorted.map((e) => e._id)).toEqual(['new', 'mid', 'old']);
+});
+
+it('caches each plant journal per user', async () => {
+  await saveCachedJournal('user-1', 'p1', [entry('a', '2024-01-01T12:00:00Z')]);
+
+  expect((await loadCachedJournal('user-1', 'p1'))?.map((e) => e._id)).toEqual(['a']);
+  expect(await loadCachedJournal('user-2', 'p1')).toBeNull();
+
+  await clearCachedJournal('user-1', 'p1');
+  expect(await loadCachedJournal('user-1', 'p1')).toBeNull();
+});
@@ -0,0 +1,92 @@
+// src/storage/careLog.ts - care actually given to each plant, cached on the device and synced to the server
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CareEvent, CareEventType } from '../types/api';
+import { toLocalIsoDate } from '../utils/validation';
+import { daysBetween } from './careSchedule';
+
+// `pending` events were logged offline and haven't reached the server yet; their _id is local
+export type LoggedCareEvent = CareEvent & { pending?: boolean };
+
+type CareEventDefinition = {
+  label: string;
+  pastTense: string;
+  icon: 'water-outline' | 'leaf-outline' | 'cloud-outline' | 'flower-outline' | 'cut-outline';
+};
+
+export const CARE_EVENTS: Record<CareEventType, CareEventDefinition> = {
+  water: { label: 'Water', pastTense: 'Watered', icon: 'water-outline' },
+  fertilize: { label: 'Fertilize', pastTense: 'Fertilized', icon: 'leaf-outline' },
+  mist: { label: 'Mist', pastTense: 'Misted', icon: 'cloud-outline' },
+  repot: { label: 'Repot', pastTense: 'Repotted', icon: 'flower-outline' },
+  prune: { label: 'Prune', pastTense: 'Pruned', icon: 'cut-outline' },
+};
+
+export const CARE_EVENT_TYPES = Object.keys(CARE_EVENTS) as CareEventType[];
+
+export type CareStats = {
+  count: number;
+  lastDate: string | null; // ISO timestamp
+  daysSinceLast: number | null;
+  averageIntervalDays: number | null; // Needs at least two events
+};
+
+const LOG_KEY_PREFIX = 'careLog:';
+
+const logKey = (userId: string) => `${LOG_KEY_PREFIX}${userId}`;
+
+export const createLocalEventId = () => `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first
+export const sortCareEvents = (events: LoggedCareEvent[]) =>
+  [...events].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+// The server's list plus anything logged here that hasn't been uploaded yet
+export const mergeCareEvents = (server: CareEvent[], local: LoggedCareEvent[]): LoggedCareEvent[] =>
+  sortCareEvents([...server, ...local.filter((event) => event.pending)]);
+
+export const getCareStats = (
+  events: LoggedCareEvent[],
+  plantId: string,
+  type: CareEventType,
+  today: Date = new Date()
+): CareStats => {
+  const days = events
+    .filter((event) => event.plant_id === plantId && event.type === type)
+    .map((event) => event.date)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  if (days.length === 0) {
+    return { count: 0, lastDate: null, daysSinceLast: null, averageIntervalDays: null };
+  }
+
+  const localDays = days.map((date) => toLocalIsoDate(new Date(date)));
+  const lastDate = days[days.length - 1];
+  const span = daysBetween(localDays[0], localDays[localDays.length - 1]);
+
+  return {
+    count: days.length,
+    lastDate,
+    daysSinceLast: daysBetween(localDays[localDays.length - 1], toLocalIsoDate(today)),
+    averageIntervalDays: days.length > 1 ? Math.round(span / (days.length - 1)) : null,
+  };
+};
+
+export const formatDaysAgo = (days: number) => {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+};
+
+export const loadCareLog = async (userId: string): Promise<LoggedCareEvent[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(logKey(userId));
+    const events = stored ? JSON.parse(stored) : [];
+    return Array.isArray(events) ? events : [];
+  } catch (error) {
+    console.error('Error loading care log:', error);
+    return [];
+  }
+};
+
+export const saveCareLog = (userId: string, events: LoggedCareEvent[]) =>
+  AsyncStorage.setItem(logKey(userId), JSON.stringify(events));
@@ -0,0 +1,131 @@
+// src/storage/careSchedule.ts - recurring care tasks for each plant, kept on the device
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CareTaskType } from '../utils/careFrequency';
+import { toLocalIsoDate } from '../utils/validation';
+
+export type CareTask = {
+  id: string; // `${plantId}:${type}`
+  plantId: string;
+  plantName: string;
+  type: CareTaskType;
+  suggestedDays: number; // From the species care info
+  overrideDays: number | null; // Set by the user for this plant
+  lastDoneAt: string | null; // ISO timestamp
+  scheduledFrom: string; // YYYY-MM-DD the current interval counts from
+  snoozedUntil: string | null; // YYYY-MM-DD, replaces the due date until the task is done
+};
+
+const SCHEDULE_KEY_PREFIX = 'careSchedule:';
+
+export const MIN_INTERVAL_DAYS = 1;
+export const MAX_INTERVAL_DAYS = 365;
+export const SNOOZE_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scheduleKey = (userId: string) => `${SCHEDULE_KEY_PREFIX}${userId}`;
+
+export const careTaskId = (plantId: string, type: CareTaskType) => `${plantId}:${type}`;
+
+// Calendar arithmetic on YYYY-MM-DD strings in local time, so daylight saving can't skip a day
+export const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toLocalIsoDate(new Date(year, month - 1, day + days));
+};
+
+export const daysBetween = (from: string, to: string) => {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+};
+
+export const clampIntervalDays = (days: number) =>
+  Math.min(MAX_INTERVAL_DAYS, Math.max(MIN_INTERVAL_DAYS, Math.round(days)));
+
+export const getTaskInterval = (task: CareTask) => task.overrideDays ?? task.suggestedDays;
+
+export const getTaskDueDate = (task: CareTask) =>
+  task.snoozedUntil ?? addDays(task.scheduledFrom, getTaskInterval(task));
+
+// Negative when overdue, 0 when due today
+export const getDaysUntilDue = (task: CareTask, today: Date = new Date()) =>
+  daysBetween(toLocalIsoDate(today), getTaskDueDate(task));
+
+// Create, update or drop a plant's tasks to match its suggested intervals, keeping progress and overrides
+export const syncPlantTasks = (
+  tasks: CareTask[],
+  plant: { _id: string; name: string; type: string },
+  intervals: Partial<Record<CareTaskType, number>>,
+  today: Date = new Date()
+): CareTask[] => {
+  const others = tasks.filter((task) => task.plantId !== plant._id);
+  const existing = new Map(
+    tasks.filter((task) => task.plantId === plant._id).map((task) => [task.type, task])
+  );
+  const plantName = plant.name || plant.type;
+
+  const plantTasks = (Object.keys(intervals) as CareTaskType[]).map((type): CareTask => {
+    const suggestedDays = clampIntervalDays(intervals[type]!);
+    const current = existing.get(type);
+    if (current) {
+      return { ...current, plantName, suggestedDays };
+    }
+    // A new task is first due one interval from today
+    return {
+      id: careTaskId(plant._id, type),
+      plantId: plant._id,
+      plantName,
+      type,
+      suggestedDays,
+      overrideDays: null,
+      lastDoneAt: null,
+      scheduledFrom: toLocalIsoDate(today),
+      snoozedUntil: null,
+    };
+  });
+
+  return [...others, ...plantTasks];
+};
+
+export const completeTask = (task: CareTask, now: Date = new Date()): CareTask => ({
+  ...task,
+  lastDoneAt: now.toISOString(),
+  scheduledFrom: toLocalIsoDate(now),
+  snoozedUntil: null,
+});
+
+export const snoozeTask = (task: CareTask, days: number = SNOOZE_DAYS, today: Date = new Date()): CareTask => {
+  // Snoozing something not yet due pushes it back from its due date rather than from today
+  const from = getDaysUntilDue(task, today) > 0 ? getTaskDueDate(task) : toLocalIsoDate(today);
+  return { ...task, snoozedUntil: addDays(from, days) };
+};
+
+// null goes back to the species suggestion
+export const overrideTaskInterval = (task: CareTask, days: number | null): CareTask => ({
+  ...task,
+  overrideDays: days === null ? null : clampIntervalDays(days),
+  snoozedUntil: null,
+});
+
+// Tasks due today or overdue, most overdue first
+export const getDueTasks = (tasks: CareTask[], today: Date = new Date()) =>
+  tasks
+    .filter((task) => getDaysUntilDue(task, today) <= 0)
+    .sort((a, b) => getDaysUntilDue(a, today) - getDaysUntilDue(b, today));
+
+export const countOverdueTasks = (tasks: CareTask[], today: Date = new Date()) =>
+  tasks.filter((task) => getDaysUntilDue(task, today) < 0).length;
+
+export const loadCareTasks = async (userId: string): Promise<CareTask[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(scheduleKey(userId));
+    const tasks = stored ? JSON.parse(stored) : [];
+    return Array.isArray(tasks) ? tasks : [];
+  } catch (error) {
+    console.error('Error loading care schedule:', error);
+    return [];
+  }
+};
+
+export const saveCareTasks = (userId: string, tasks: CareTask[]) =>
+  AsyncStorage.setItem(scheduleKey(userId), JSON.stringify(tasks));
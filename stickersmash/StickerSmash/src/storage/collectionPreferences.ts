@@ -0,0 +1,36 @@
+// src/storage/collectionPreferences.ts - each user's chosen sort, filters and layout for the collection
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  COLLECTION_LAYOUTS,
+  COLLECTION_SORTS,
+  CollectionPreferences,
+  DEFAULT_COLLECTION_FILTERS,
+  DEFAULT_COLLECTION_PREFERENCES
+} from '../utils/collectionView';
+
+const PREFERENCES_KEY_PREFIX = 'collectionPreferences:';
+
+const preferencesKey = (userId: string) => `${PREFERENCES_KEY_PREFIX}${userId}`;
+
+// Fill in anything missing from older saves, and drop sorts or layouts that no longer exist
+const withDefaults = (stored: Partial<CollectionPreferences>): CollectionPreferences => ({
+  sort: stored.sort && stored.sort in COLLECTION_SORTS ? stored.sort : DEFAULT_COLLECTION_PREFERENCES.sort,
+  direction: stored.direction === 'asc' || stored.direction === 'desc'
+    ? stored.direction
+    : DEFAULT_COLLECTION_PREFERENCES.direction,
+  filters: { ...DEFAULT_COLLECTION_FILTERS, ...stored.filters },
+  layout: stored.layout && stored.layout in COLLECTION_LAYOUTS ? stored.layout : DEFAULT_COLLECTION_PREFERENCES.layout,
+});
+
+export const loadCollectionPreferences = async (userId: string): Promise<CollectionPreferences> => {
+  try {
+    const stored = await AsyncStorage.getItem(preferencesKey(userId));
+    return stored ? withDefaults(JSON.parse(stored)) : DEFAULT_COLLECTION_PREFERENCES;
+  } catch (error) {
+    console.error('Error loading collection preferences:', error);
+    return DEFAULT_COLLECTION_PREFERENCES;
+  }
+};
+
+export const saveCollectionPreferences = (userId: string, preferences: CollectionPreferences) =>
+  AsyncStorage.setItem(preferencesKey(userId), JSON.stringify(preferences));
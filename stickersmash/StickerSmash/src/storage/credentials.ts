@@ -0,0 +1,79 @@
+// src/storage/credentials.ts - encrypted storage for tokens and account details
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Every key that belongs to a signed-in session
+export const CREDENTIAL_KEYS = [
+  'userToken',
+  'refreshToken',
+  'tokenExpiresAt',
+  'userId',
+  'username',
+] as const;
+
+export type CredentialKey = typeof CREDENTIAL_KEYS[number];
+
+const MIGRATION_FLAG_KEY = 'credentialsMigrated';
+
+// SecureStore (Keychain / Keystore) isn't available on web, so fall back to AsyncStorage there
+const useSecureStore = Platform.OS !== 'web';
+
+export const getCredential = async (key: CredentialKey): Promise<string | null> => {
+  if (useSecureStore) {
+    return SecureStore.getItemAsync(key);
+  }
+  return AsyncStorage.getItem(key);
+};
+
+export const setCredential = async (key: CredentialKey, value: string) => {
+  if (useSecureStore) {
+    await SecureStore.setItemAsync(key, value);
+  } else {
+    await AsyncStorage.setItem(key, value);
+  }
+};
+
+export const removeCredential = async (key: CredentialKey) => {
+  if (useSecureStore) {
+    await SecureStore.deleteItemAsync(key);
+  } else {
+    await AsyncStorage.removeItem(key);
+  }
+};
+
+// Values come back in the same order as the keys
+export const getCredentials = (keys: readonly CredentialKey[]) =>
+  Promise.all(keys.map((key) => getCredential(key)));
+
+export const removeCredentials = async (keys: readonly CredentialKey[] = CREDENTIAL_KEYS) => {
+  await Promise.all(keys.map((key) => removeCredential(key)));
+};
+
+// Move credentials written to plain AsyncStorage by older versions into secure storage (runs once)
+export const migrateCredentials = async () => {
+  if (!useSecureStore) {
+    return;
+  }
+
+  try {
+    if (await AsyncStorage.getItem(MIGRATION_FLAG_KEY)) {
+      return;
+    }
+
+    const stored = await AsyncStorage.multiGet(CREDENTIAL_KEYS);
+    for (const [key, value] of stored) {
+      // Don't overwrite anything already written to secure storage
+      if (value && !(await SecureStore.getItemAsync(key))) {
+        await SecureStore.setItemAsync(key, value);
+      }
+    }
+
+    await AsyncStorage.multiRemove(CREDENTIAL_KEYS);
+    await AsyncStorage.setItem(MIGRATION_FLAG_KEY, 'true');
+    console.log('Migrated stored credentials to secure storage');
+  } catch (error) {
+    // Leave the old keys in place so the next launch can try again
+    console.error('Error migrating credentials:', error);
+  }
+};
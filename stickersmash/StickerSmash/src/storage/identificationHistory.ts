@@ -0,0 +1,108 @@
+// src/storage/identificationHistory.ts - every identification the user has run on this device
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IdentificationResult } from '../types/api';
+import { DEFAULT_IMAGE_PROCESSING, prepareImageForUpload } from '../utils/imageProcessing';
+import { deleteImages, persistImage } from './imageFiles';
+
+export type HistoryEntry = {
+  id: string;
+  createdAt: string;
+  // Small copy of the best photo for the history list
+  imageUri: string | null;
+  // Upload-sized copy of the best photo, used when the entry is saved later; missing on web
+  // and in entries recorded before it was kept
+  photoUri?: string | null;
+  result: IdentificationResult;
+  saved: boolean;
+};
+
+const HISTORY_KEY_PREFIX = 'identificationHistory:';
+const IMAGE_FOLDER = 'identification-history';
+
+// Oldest entries (and their photos) are dropped beyond this
+export const HISTORY_LIMIT = 50;
+
+// Small enough that a full history still fits in web storage
+const HISTORY_IMAGE = { maxDimension: 640, quality: 0.6 };
+
+// Web inlines photos into storage, which only has room for the thumbnails
+const KEEP_UPLOAD_PHOTO = Platform.OS !== 'web';
+
+const historyKey = (userId: string) => `${HISTORY_KEY_PREFIX}${userId}`;
+
+export const loadHistory = async (userId: string): Promise<HistoryEntry[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(historyKey(userId));
+    const entries = stored ? JSON.parse(stored) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.error('Error loading identification history:', error);
+    return [];
+  }
+};
+
+const saveHistory = (userId: string, entries: HistoryEntry[]) =>
+  AsyncStorage.setItem(historyKey(userId), JSON.stringify(entries));
+
+export const getHistoryEntry = async (userId: string, id: string) =>
+  (await loadHistory(userId)).find((entry) => entry.id === id) || null;
+
+// Record a finished identification, newest first; returns the new entry
+export const addHistoryEntry = async (userId: string, result: IdentificationResult) => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  let imageUri: string | null = null;
+  let photoUri: string | null = null;
+  if (result.image_url) {
+    try {
+      const thumbnail = await prepareImageForUpload(result.image_url, HISTORY_IMAGE);
+      imageUri = await persistImage(thumbnail.uri, IMAGE_FOLDER, id);
+    } catch (error) {
+      console.warn('Could not store history image:', error);
+    }
+  }
+  if (result.image_url && KEEP_UPLOAD_PHOTO) {
+    try {
+      const photo = await prepareImageForUpload(result.image_url, DEFAULT_IMAGE_PROCESSING);
+      photoUri = await persistImage(photo.uri, IMAGE_FOLDER, `${id}-photo`);
+    } catch (error) {
+      console.warn('Could not store history photo:', error);
+    }
+  }
+
+  // Per-photo details point at temporary files, so only keep the merged answer
+  const { photos, best_photo_index, ...summary } = result;
+  const entry: HistoryEntry = {
+    id,
+    createdAt: new Date().toISOString(),
+    imageUri,
+    photoUri,
+    result: { ...summary, image_url: photoUri ?? imageUri ?? undefined },
+    saved: false,
+  };
+
+  const entries = [entry, ...(await loadHistory(userId))];
+  const dropped = entries.splice(HISTORY_LIMIT);
+  await saveHistory(userId, entries);
+  await deleteImages(dropped.flatMap((e) => [e.imageUri, e.photoUri]));
+
+  return entry;
+};
+
+export const markHistorySaved = async (userId: string, id: string) => {
+  const entries = await loadHistory(userId);
+  await saveHistory(
+    userId,
+    entries.map((entry) => (entry.id === id ? { ...entry, saved: true } : entry))
+  );
+};
+
+export const deleteHistoryEntry = async (userId: string, id: string) => {
+  const entries = await loadHistory(userId);
+  const entry = entries.find((e) => e.id === id);
+  await saveHistory(userId, entries.filter((e) => e.id !== id));
+  if (entry) {
+    await deleteImages([entry.imageUri, entry.photoUri]);
+  }
+};
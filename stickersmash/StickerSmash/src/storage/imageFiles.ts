@@ -0,0 +1,48 @@
+// src/storage/imageFiles.ts - photos kept on the device between app launches
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+// Picker and manipulator files live in the cache, which the OS may clear at any time
+const STORAGE_ROOT = FileSystem.documentDirectory || '';
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Copy an image into `folder` under the documents directory; on web it is inlined as a data URI
+export const persistImage = async (uri: string, folder: string, name: string) => {
+  if (Platform.OS === 'web') {
+    if (uri.startsWith('data:')) return uri;
+    const response = await fetch(uri);
+    return blobToDataUrl(await response.blob());
+  }
+
+  const dir = `${STORAGE_ROOT}${folder}/`;
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true }).catch(() => {});
+  const target = `${dir}${name}.jpg`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+};
+
+// Base64 contents of a persisted image, without the data URI prefix
+export const readImageBase64 = async (uri: string) => {
+  if (uri.startsWith('data:')) {
+    return uri.split(',')[1] || '';
+  }
+  return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+};
+
+// Delete images written by persistImage; anything else (picker files, data URIs) is left alone
+export const deleteImages = async (uris: (string | null | undefined)[]) => {
+  if (Platform.OS === 'web' || !STORAGE_ROOT) return;
+
+  await Promise.all(
+    uris
+      .filter((uri): uri is string => !!uri && uri.startsWith(STORAGE_ROOT))
+      .map((uri) => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}))
+  );
+};
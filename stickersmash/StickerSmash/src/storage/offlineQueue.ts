@@ -0,0 +1,74 @@
+// src/storage/offlineQueue.ts - identifications and saves waiting for a connection
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IdentificationResult, NewPlant } from '../types/api';
+import { deleteImages, persistImage, readImageBase64 } from './imageFiles';
+
+// 'identified' means the upload finished and the result is waiting for the user to review it
+export type PendingStatus = 'pending' | 'identified' | 'failed';
+
+type PendingBase = {
+  id: string;
+  createdAt: string;
+  status: PendingStatus;
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms
+  lastError?: string;
+};
+
+export type PendingIdentification = PendingBase & {
+  kind: 'identify';
+  imageUris: string[];
+  result?: IdentificationResult;
+};
+
+export type PendingSave = PendingBase & {
+  kind: 'save';
+  imageUri: string | null;
+  plant: Omit<NewPlant, 'image_data'>;
+};
+
+export type PendingItem = PendingIdentification | PendingSave;
+
+const QUEUE_KEY_PREFIX = 'offlineQueue:';
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+const IMAGE_FOLDER = 'offline-queue';
+
+// Each user has their own queue so a shared device doesn't upload into the wrong collection
+const queueKey = (userId: string) => `${QUEUE_KEY_PREFIX}${userId}`;
+
+export const createPendingId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// 5s, 10s, 20s, ... capped at 10 minutes
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+export const loadQueue = async (userId: string): Promise<PendingItem[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(queueKey(userId));
+    const items = stored ? JSON.parse(stored) : [];
+    return Array.isArray(items) ? items : [];
+  } catch (error) {
+    console.error('Error loading offline queue:', error);
+    return [];
+  }
+};
+
+export const saveQueue = async (userId: string, items: PendingItem[]) => {
+  if (items.length === 0) {
+    await AsyncStorage.removeItem(queueKey(userId));
+  } else {
+    await AsyncStorage.setItem(queueKey(userId), JSON.stringify(items));
+  }
+};
+
+export const persistPendingImage = (uri: string, name: string) =>
+  persistImage(uri, IMAGE_FOLDER, name);
+
+export const readPendingImage = readImageBase64;
+
+export const deletePendingImages = (item: PendingItem) =>
+  deleteImages(item.kind === 'identify' ? item.imageUris : [item.imageUri]);
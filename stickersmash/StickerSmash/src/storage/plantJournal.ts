@@ -0,0 +1,34 @@
+// src/storage/plantJournal.ts - last known copy of each plant's journal, shown before (or without) the server
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { JournalEntry } from '../types/api';
+
+const JOURNAL_KEY_PREFIX = 'plantJournal:';
+
+const journalKey = (userId: string, plantId: string) => `${JOURNAL_KEY_PREFIX}${userId}:${plantId}`;
+
+// Newest first, the order the timeline is drawn in
+export const sortJournalEntries = (entries: JournalEntry[]) =>
+  [...entries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+export const loadCachedJournal = async (userId: string, plantId: string): Promise<JournalEntry[] | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(journalKey(userId, plantId));
+    const entries = stored ? JSON.parse(stored) : null;
+    return Array.isArray(entries) ? entries : null;
+  } catch (error) {
+    console.error('Error loading cached journal:', error);
+    return null;
+  }
+};
+
+export const saveCachedJournal = async (userId: string, plantId: string, entries: JournalEntry[]) => {
+  try {
+    await AsyncStorage.setItem(journalKey(userId, plantId), JSON.stringify(entries));
+  } catch (error) {
+    // The cache is only a fallback, so a full disk shouldn't stop the user
+    console.warn('Could not cache journal:', error);
+  }
+};
+
+export const clearCachedJournal = (userId: string, plantId: string) =>
+  AsyncStorage.removeItem(journalKey(userId, plantId));
@@ -0,0 +1,35 @@
+// src/storage/recentSearches.ts - the user's last few collection searches, newest first
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const RECENT_SEARCHES_KEY_PREFIX = 'recentSearches:';
+
+export const RECENT_SEARCHES_LIMIT = 8;
+
+const recentSearchesKey = (userId: string) => `${RECENT_SEARCHES_KEY_PREFIX}${userId}`;
+
+export const loadRecentSearches = async (userId: string): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(recentSearchesKey(userId));
+    const searches = stored ? JSON.parse(stored) : [];
+    return Array.isArray(searches) ? searches : [];
+  } catch (error) {
+    console.error('Error loading recent searches:', error);
+    return [];
+  }
+};
+
+// Moves a repeated search (ignoring case) to the front instead of listing it twice
+export const addRecentSearch = (searches: string[], query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return searches;
+
+  return [
+    trimmed,
+    ...searches.filter((search) => search.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, RECENT_SEARCHES_LIMIT);
+};
+
+export const saveRecentSearches = (userId: string, searches: string[]) =>
+  AsyncStorage.setItem(recentSearchesKey(userId), JSON.stringify(searches));
+
+export const clearRecentSearches = (userId: string) => AsyncStorage.removeItem(recentSearchesKey(userId));
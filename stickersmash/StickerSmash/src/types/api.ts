@@ -0,0 +1,117 @@
+// src/types/api.ts - request and response shapes for the Floradex backend
+import { CareInfo, Plant, Prediction } from '../screens/PlantDetailScreen';
+import { CareTaskType } from '../utils/careFrequency';
+
+// Token fields returned by login, register and /api/auth/refresh
+export type TokenResponse = {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  expires_in?: number; // Seconds
+};
+
+// Response from /api/auth/login and /api/auth/register
+export type AuthResponse = TokenResponse & {
+  _id: string;
+  username: string;
+};
+
+// Response from GET /api/users/me
+export type AuthUserResponse = {
+  _id: string;
+  username: string;
+};
+
+// Response from /api/identify/
+export type IdentificationResult = {
+  plant_type: string;
+  confidence: number;
+  all_predictions: Prediction[];
+  image_url?: string; // Local image URI used for display
+  care_info?: CareInfo;
+  // Set when several photos of the same plant were identified together
+  photos?: PhotoContribution[];
+  best_photo_index?: number;
+};
+
+// How one photo scored for the merged top prediction
+export type PhotoContribution = {
+  uri: string;
+  plant_type: string; // That photo's own top prediction
+  top_confidence: number; // That photo's confidence in the merged top prediction
+};
+
+// Body for POST /api/plants/
+export type NewPlant = {
+  type: string;
+  user_id: string;
+  date_added: string;
+  name: string;
+  confidence: number;
+  all_predictions: Prediction[];
+  image_data: string; // Base64 image without the data URI prefix
+  // What the model said, kept even when the user picks another species, for accuracy analysis
+  model_prediction: Prediction;
+  species_source: SpeciesSource;
+};
+
+// Body of PATCH /api/plants/{id}; only the fields being changed are sent
+export type PlantUpdate = Partial<Pick<Plant, 'name' | 'type' | 'acquired_date' | 'location' | 'notes'>>;
+
+// Sort and filter parameters for GET /api/plants
+export type PlantQuery = Record<string, string | string[]>;
+
+// One dated note in a plant's journal, from /api/plants/{id}/journal
+export type JournalEntry = {
+  _id: string;
+  plant_id: string;
+  date: string; // ISO timestamp of what the entry describes
+  text: string;
+  image_urls: string[];
+  updated_at?: string;
+};
+
+// Body of POST /api/plants/{id}/journal
+export type NewJournalEntry = {
+  date: string;
+  text: string;
+  images: string[]; // Base64 images without the data URI prefix
+};
+
+// Body of PATCH /api/plants/{id}/journal/{entryId}; image_urls lists the existing photos to keep
+export type JournalEntryUpdate = Partial<Pick<JournalEntry, 'date' | 'text' | 'image_urls'>> & {
+  images?: string[]; // New photos to add
+};
+
+// Scheduled task types plus one-off care that isn't on a schedule
+export type CareEventType = CareTaskType | 'repot' | 'prune';
+
+// A record of care actually given, from /api/care-events
+export type CareEvent = {
+  _id: string;
+  plant_id: string;
+  type: CareEventType;
+  date: string; // ISO timestamp
+  amount?: string | null; // Free text, e.g. "250 ml"
+  note?: string | null;
+};
+
+// Body of POST /api/plants/{id}/care-events
+export type NewCareEvent = Pick<CareEvent, 'type' | 'date' | 'amount' | 'note'>;
+
+// Where a saved species came from: the top prediction, another prediction, or typed by the user
+export type SpeciesSource = 'model' | 'alternative' | 'manual';
+
+// Response from /api/plant-species/{name}
+export type PlantSpecies = CareInfo & {
+  name?: string;
+};
+
+// A single FastAPI validation error (422 responses)
+export type ValidationErrorItem = {
+  loc: Array<string | number>;
+  msg: string;
+  type: string;
+};
+
+export type { Plant };
@@ -1,16 +1,23 @@
 // src/types/navigation.ts - simplify your types
+import { NavigatorScreenParams } from '@react-navigation/native';
 import { Plant } from '../screens/PlantDetailScreen';
 
 // Root navigator types
 export type RootStackParamList = {
   Auth: undefined;
-  Main: undefined;
+  ForgotPassword: undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
   PlantDetail: { plant: Plant };
+  ChangePassword: undefined;
+  DeveloperSettings: undefined;
+  History: undefined;
 };
 
 // Tab navigator types
 export type MainTabParamList = {
   Collection: undefined;
-  Identify: undefined;
+  Today: undefined;
+  // Review a queued identification or a past one from the history
+  Identify: { pendingId?: string; historyId?: string } | undefined;
   Profile: undefined;
 };
\ No newline at end of file
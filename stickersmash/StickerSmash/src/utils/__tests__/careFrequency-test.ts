@@ -0,0 +1,31 @@
+import { parseCareFrequency, suggestCareIntervals } from '../careFrequency';
+
+it('reads ranges, counts and keywords as a number of days', () => {
+  expect(parseCareFrequency('Every 1-2 weeks')).toEqual({ minDays: 7, maxDays: 14, days: 8 });
+  expect(parseCareFrequency('Water every 10 to 14 days')?.days).toBe(11);
+  expect(parseCareFrequency('Twice a week')?.days).toBe(4);
+  expect(parseCareFrequency('Every three days')?.days).toBe(3);
+  expect(parseCareFrequency('Monthly during the growing season')?.days).toBe(30);
+  expect(parseCareFrequency('Every other week')?.days).toBe(14);
+});
+
+it('suggests an interval near the short end of a wide range', () => {
+  expect(parseCareFrequency('Every 2-6 weeks')).toEqual({ minDays: 14, maxDays: 42, days: 21 });
+  expect(parseCareFrequency('Every 1-3 months')?.days).toBe(45);
+});
+
+it('returns null when the text has no frequency', () => {
+  expect(parseCareFrequency('When the top inch of soil is dry')).toBeNull();
+  expect(parseCareFrequency(undefined)).toBeNull();
+});
+
+it('falls back to defaults and only mists plants that need it', () => {
+  expect(suggestCareIntervals(null)).toEqual({ water: 7, fertilize: 30 });
+  expect(
+    suggestCareIntervals({
+      watering_frequency: 'Every 1-2 weeks',
+      fertilization: 'Every 2 months in spring and summer',
+      humidity: 'High; mist the leaves regularly',
+    })
+  ).toEqual({ water: 8, fertilize: 60, mist: 3 });
+});
@@ -0,0 +1,74 @@
+import * as Notifications from 'expo-notifications';
+
+import { CareTask } from '../../storage/careSchedule';
+import { clearCareReminders, syncCareReminders } from '../careReminders';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  setNotificationChannelAsync: jest.fn(() => Promise.resolve()),
+  getPermissionsAsync: jest.fn(() => Promise.resolve({ granted: true, canAskAgain: true })),
+  requestPermissionsAsync: jest.fn(() => Promise.resolve({ granted: true })),
+  cancelAllScheduledNotificationsAsync: jest.fn(() => Promise.resolve()),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('id')),
+  AndroidImportance: { DEFAULT: 3 },
+}));
+
+const cancelAll = Notifications.cancelAllScheduledNotificationsAsync as jest.Mock;
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+
+const taskDueIn = (days: number): CareTask => ({
+  id: 'p1:water',
+  plantId: 'p1',
+  plantName: 'Fern',
+  type: 'water',
+  suggestedDays: days,
+  overrideDays: null,
+  lastDoneAt: null,
+  scheduledFrom: new Date(Date.now() + 86400000).toISOString().slice(0, 10),
+  snoozedUntil: null,
+});
+
+beforeEach(() => {
+  cancelAll.mockClear();
+  schedule.mockClear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+it("doesn't start a sync until the previous one has finished", async () => {
+  let finishCancel: () => void = () => {};
+  cancelAll.mockImplementationOnce(() => new Promise<void>((resolve) => { finishCancel = resolve; }));
+
+  const first = syncCareReminders([taskDueIn(3)]);
+  await Promise.resolve();
+  const second = syncCareReminders([taskDueIn(5)]);
+  await Promise.resolve();
+  expect(cancelAll).toHaveBeenCalledTimes(1);
+
+  finishCancel();
+  await Promise.all([first, second]);
+
+  expect(cancelAll).toHaveBeenCalledTimes(2);
+  expect(schedule).toHaveBeenCalledTimes(2);
+  expect(schedule.mock.invocationCallOrder[0]).toBeLessThan(cancelAll.mock.invocationCallOrder[1]);
+});
+
+it('leaves nothing scheduled when cleared while a sync is waiting', async () => {
+  let finishCancel: () => void = () => {};
+  cancelAll.mockImplementationOnce(() => new Promise<void>((resolve) => { finishCancel = resolve; }));
+
+  const running = syncCareReminders([taskDueIn(3)]);
+  await Promise.resolve();
+  const waiting = syncCareReminders([taskDueIn(5)]);
+  const cleared = clearCareReminders();
+
+  finishCancel();
+  await Promise.all([running, waiting, cleared]);
+
+  // The waiting sync is skipped and the clear runs after the one in flight
+  expect(schedule).toHaveBeenCalledTimes(1);
+  expect(cancelAll).toHaveBeenCalledTimes(2);
+  expect(cancelAll.mock.invocationCallOrder[1]).toBeGreaterThan(schedule.mock.invocationCallOrder[0]);
+});
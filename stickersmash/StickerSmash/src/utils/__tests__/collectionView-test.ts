@@ -0,0 +1,96 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import {
+  DEFAULT_COLLECTION_FILTERS,
+  DEFAULT_COLLECTION_PREFERENCES,
+  CollectionPreferences,
+  applyCollectionPreferences,
+  applyServerMatches,
+  chunk,
+  countActiveFilters,
+  getColumnCount,
+  getFilterOptions,
+  groupBySpecies,
+  toPlantQuery,
+} from '../collectionView';
+
+const plants = [
+  { _id: '1', name: 'Zed', type: 'Monstera', date_added: '2024-03-01T12:00:00', confidence: 0.9, image_url: 'a.jpg', location: 'Kitchen' },
+  { _id: '2', name: '', type: 'Boston fern', date_added: '2024-05-01T12:00:00', confidence: 0.4, location: 'Bathroom ' },
+  { _id: '3', name: 'amy', type: 'Monstera', date_added: '2024-01-15T12:00:00', confidence: 0.7, image_url: 'c.jpg' },
+];
+
+const view = (changes: Partial<CollectionPreferences>, nextCareDue?: Map<string, number>) =>
+  applyCollectionPreferences(plants, { ...DEFAULT_COLLECTION_PREFERENCES, ...changes }, nextCareDue).map(
+    (plant) => plant._id
+  );
+
+const filtered = (filters: Partial<typeof DEFAULT_COLLECTION_FILTERS>) =>
+  view({ filters: { ...DEFAULT_COLLECTION_FILTERS, ...filters } });
+
+it('defaults to newest first without filters', () => {
+  expect(view({})).toEqual(['2', '1', '3']);
+  expect(countActiveFilters(DEFAULT_COLLECTION_FILTERS)).toBe(0);
+});
+
+it('sorts by name ignoring case, falling back to the species', () => {
+  expect(view({ sort: 'name', direction: 'asc' })).toEqual(['3', '2', '1']);
+  expect(view({ sort: 'species', direction: 'asc' })).toEqual(['2', '3', '1']);
+  expect(view({ sort: 'confidence', direction: 'desc' })).toEqual(['1', '3', '2']);
+});
+
+it('puts plants without care tasks last when sorting by next care', () => {
+  const due = new Map([['1', 3], ['3', -2]]);
+  expect(view({ sort: 'nextCare', direction: 'asc' }, due)).toEqual(['3', '1', '2']);
+  expect(view({ sort: 'nextCare', direction: 'desc' }, due)).toEqual(['1', '3', '2']);
+});
+
+it('filters by species, location, confidence, date added and photo', () => {
+  expect(filtered({ species: ['Monstera'] })).toEqual(['1', '3']);
+  expect(filtered({ locations: ['Bathroom', 'Kitchen'] })).toEqual(['2', '1']);
+  expect(filtered({ minConfidence: 0.5, maxConfidence: 0.8 })).toEqual(['3']);
+  expect(filtered({ addedFrom: '2024-01-15', addedTo: '2024-03-01' })).toEqual(['1', '3']);
+  expect(filtered({ hasPhoto: false })).toEqual(['2']);
+  expect(countActiveFilters({ ...DEFAULT_COLLECTION_FILTERS, hasPhoto: true, addedTo: '2024-01-01' })).toBe(2);
+});
+
+it('lists distinct species and locations', () => {
+  expect(getFilterOptions(plants)).toEqual({
+    species: ['Boston fern', 'Monstera'],
+    locations: ['Bathroom', 'Kitchen'],
+  });
+});
+
+it('describes the view as server query parameters', () => {
+  expect(
+    toPlantQuery({
+      ...DEFAULT_COLLECTION_PREFERENCES,
+      sort: 'species',
+      direction: 'asc',
+      filters: { ...DEFAULT_COLLECTION_FILTERS, species: ['Monstera'], minConfidence: 0.5, hasPhoto: true },
+    })
+  ).toEqual({ sort: 'type', order: 'asc', type: ['Monstera'], min_confidence: '0.5', has_photo: 'true' });
+  expect(toPlantQuery({ ...DEFAULT_COLLECTION_PREFERENCES, sort: 'nextCare' })).toEqual({});
+});
+
+it('only hides plants the server was asked about', () => {
+  const matches = { queried: new Set(['1', '2']), matched: new Set(['1']) };
+  expect(applyServerMatches(plants, matches).map((plant) => plant._id)).toEqual(['1', '3']);
+});
+
+it('fits more columns on wider screens, within limits', () => {
+  expect(getColumnCount('list', 350)).toBe(1);
+  expect(getColumnCount('list', 728)).toBe(2);
+  expect(getColumnCount('list', 2000)).toBe(3);
+  expect(getColumnCount('grid', 300)).toBe(3);
+  expect(getColumnCount('grid', 984)).toBe(8);
+});
+
+it('groups by species alphabetically, keeping the order within each group', () => {
+  const groups = groupBySpecies(plants, (plant) => plant);
+  expect(groups.map((group) => [group.species, group.count])).toEqual([['Boston fern', 1], ['Monstera', 2]]);
+  expect(groups[1].items.map((plant) => plant._id)).toEqual(['1', '3']);
+  expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+});
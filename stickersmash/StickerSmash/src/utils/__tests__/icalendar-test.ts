@@ -0,0 +1,45 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import { syncPlantTasks } from '../../storage/careSchedule';
+import { buildCareCalendar, escapeText, foldLine } from '../icalendar';
+
+const today = new Date(2024, 4, 1, 9, 30);
+const plant = { _id: 'p1', name: 'Fern, kitchen; north', type: 'Boston fern' };
+
+it('writes one recurring all-day event per task with CRLF line endings', () => {
+  const tasks = syncPlantTasks([], plant, { water: 14, mist: 3 }, today);
+  const calendar = buildCareCalendar(tasks, { name: 'My plants', now: today });
+  const lines = calendar.split('\r\n');
+
+  expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  expect(lines).toContain('X-WR-CALNAME:My plants');
+  expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+  expect(lines).toContain('DTSTART;VALUE=DATE:20240515');
+  expect(lines).toContain('DTEND;VALUE=DATE:20240516');
+  expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2');
+  expect(lines).toContain('RRULE:FREQ=DAILY;INTERVAL=3');
+  expect(lines).toContain('SUMMARY:Water Fern\\, kitchen\\; north');
+  expect(lines.find((line) => line.startsWith('DTSTAMP:'))).toMatch(/^DTSTAMP:\d{8}T\d{6}Z$/);
+});
+
+it('starts overdue tasks today instead of in the past', () => {
+  const tasks = syncPlantTasks([], plant, { water: 7 }, new Date(2024, 3, 1));
+  expect(buildCareCalendar(tasks, { now: today })).toContain('DTSTART;VALUE=DATE:20240501');
+});
+
+it('escapes text values', () => {
+  expect(escapeText('a\\b, c; d\ne')).toBe('a\\\\b\\, c\\; d\\ne');
+});
+
+it('folds long lines at 75 octets without splitting characters', () => {
+  const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+  const parts = folded.split('\r\n');
+
+  expect(parts.length).toBeGreaterThan(1);
+  parts.forEach((part) => expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75));
+  expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  expect(foldLine('VERSION:2.0')).toBe('VERSION:2.0');
+});
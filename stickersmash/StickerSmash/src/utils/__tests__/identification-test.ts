@@ -0,0 +1,68 @@
+import { mergeIdentificationResults, resolveSpeciesChoice } from '../identification';
+
+it('returns a single result unchanged apart from the local image', () => {
+  const merged = mergeIdentificationResults(
+    [{ plant_type: 'Fern', confidence: 0.9, all_predictions: [] }],
+    ['file://one.jpg']
+  );
+
+  expect(merged.plant_type).toBe('Fern');
+  expect(merged.image_url).toBe('file://one.jpg');
+  expect(merged.photos).toBeUndefined();
+});
+
+it('ranks plant types by average confidence across photos', () => {
+  const merged = mergeIdentificationResults(
+    [
+      {
+        plant_type: 'Monstera',
+        confidence: 0.5,
+        all_predictions: [
+          { plant_type: 'Monstera', confidence: 0.5 },
+          { plant_type: 'Philodendron', confidence: 0.4 },
+        ],
+      },
+      {
+        plant_type: 'Philodendron',
+        confidence: 0.9,
+        all_predictions: [{ plant_type: 'Philodendron', confidence: 0.9 }],
+        care_info: { watering_frequency: 'Weekly' },
+      },
+    ],
+    ['file://leaf.jpg', 'file://whole.jpg']
+  );
+
+  expect(merged.plant_type).toBe('Philodendron');
+  expect(merged.confidence).toBeCloseTo(0.65);
+  expect(merged.all_predictions.map((p) => p.plant_type)).toEqual(['Philodendron', 'Monstera']);
+  expect(merged.all_predictions[1].confidence).toBeCloseTo(0.25);
+  expect(merged.best_photo_index).toBe(1);
+  expect(merged.image_url).toBe('file://whole.jpg');
+  expect(merged.care_info).toEqual({ watering_frequency: 'Weekly' });
+  expect(merged.photos?.map((p) => p.top_confidence)).toEqual([0.4, 0.9]);
+});
+
+it('records whether the saved species came from the model, another prediction or the user', () => {
+  const result = {
+    plant_type: 'Monstera',
+    confidence: 0.6,
+    all_predictions: [
+      { plant_type: 'Monstera', confidence: 0.6 },
+      { plant_type: 'Philodendron', confidence: 0.3 },
+    ],
+  };
+
+  expect(resolveSpeciesChoice(result, null, null)).toEqual({
+    plant_type: 'Monstera',
+    confidence: 0.6,
+    source: 'model',
+  });
+  expect(resolveSpeciesChoice(result, 'Philodendron', null)?.source).toBe('alternative');
+  expect(resolveSpeciesChoice(result, null, ' philodendron ')?.plant_type).toBe('Philodendron');
+  expect(resolveSpeciesChoice(result, null, 'Pothos')).toEqual({
+    plant_type: 'Pothos',
+    confidence: 0,
+    source: 'manual',
+  });
+  expect(resolveSpeciesChoice(result, null, '  ')).toBeNull();
+});
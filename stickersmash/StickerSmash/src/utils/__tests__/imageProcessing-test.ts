@@ -0,0 +1,18 @@
+import { describeSavings, formatBytes, getResizeActions } from '../imageProcessing';
+
+it('scales the longer side down to the max dimension', () => {
+  expect(getResizeActions(4032, 3024, 1280)).toEqual([{ resize: { width: 1280 } }]);
+  expect(getResizeActions(3024, 4032, 1280)).toEqual([{ resize: { height: 1280 } }]);
+});
+
+it('never scales small images up', () => {
+  expect(getResizeActions(800, 600, 1280)).toEqual([]);
+  expect(formatBytes(2.5 * 1024 * 1024)).toBe('2.5 MB');
+});
+
+it('describes how much smaller the upload is', () => {
+  expect(describeSavings({ originalBytes: 4 * 1024 * 1024, processedBytes: 512 * 1024 })).toBe(
+    'Compressed image from 4.0 MB to 512 KB (88% smaller)'
+  );
+  expect(describeSavings({ originalBytes: 0, processedBytes: 2048 })).toBe('Compressed image to 2 KB');
+});
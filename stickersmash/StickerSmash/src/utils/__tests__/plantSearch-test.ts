@@ -0,0 +1,59 @@
+import { getMatchSnippet, mergeRanges, searchPlants } from '../plantSearch';
+
+const plant = (_id: string, name: string, type: string, notes?: string) => ({
+  _id,
+  name,
+  type,
+  notes,
+  date_added: '2024-05-01T00:00:00Z',
+  confidence: 0.9,
+});
+
+const plants = [
+  plant('1', 'Señor Leafy', 'Monstera deliciosa', 'Repotted into terracotta'),
+  plant('2', 'Kitchen fern', 'Boston fern'),
+  plant('3', '', 'Ficus lyrata', 'Gift from Zoë'),
+];
+
+const ids = (query: string) => searchPlants(plants, query).map((result) => result.plant._id);
+
+it('returns everything for an empty query', () => {
+  expect(ids('  ')).toEqual(['1', '2', '3']);
+});
+
+it('ignores case and accents in both the query and the plants', () => {
+  expect(ids('senor')).toEqual(['1']);
+  expect(ids('ZOE')).toEqual(['3']);
+  expect(ids('señor')).toEqual(['1']);
+});
+
+it('searches names, species and notes, requiring every word to match', () => {
+  expect(ids('fern')).toEqual(['2']);
+  expect(ids('terracotta')).toEqual(['1']);
+  expect(ids('kitchen boston')).toEqual(['2']);
+  expect(ids('kitchen ficus')).toEqual([]);
+});
+
+it('tolerates small typos in longer words only', () => {
+  expect(ids('monstra')).toEqual(['1']);
+  expect(ids('fiucs')).toEqual(['3']);
+  expect(ids('fen')).toEqual([]);
+});
+
+it('reports matches as ranges in the original text', () => {
+  const [result] = searchPlants(plants, 'senor del');
+  expect(result.matches.name).toEqual([[0, 5]]);
+  expect(result.matches.type).toEqual([[9, 12]]);
+});
+
+it('merges overlapping ranges', () => {
+  expect(mergeRanges([[5, 8], [0, 2], [1, 4], [8, 9]])).toEqual([[0, 4], [5, 9]]);
+});
+
+it('cuts a snippet around the first match', () => {
+  const text = 'Watered lightly. Moved next to the east window because the leaves were yellowing.';
+  const snippet = getMatchSnippet(text, [[35, 39]], 10);
+
+  expect(snippet.text).toBe('…xt to the east window be…');
+  expect(snippet.text.slice(snippet.ranges[0][0], snippet.ranges[0][1])).toBe('east');
+});
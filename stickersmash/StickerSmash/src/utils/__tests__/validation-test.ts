@@ -0,0 +1,108 @@
+import { ApiError } from '../../api/client';
+import {
+  getPasswordStrength,
+  getServerFieldErrors,
+  isValidIsoDate,
+  validateJournalEntry,
+  validateNewPassword,
+  validatePassword,
+  validatePlantEdit,
+  validateRegistration,
+  validateUsername,
+} from '../validation';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const values = { name: 'Kitchen fern', type: 'Boston fern', acquiredDate: '', location: '', notes: '' };
+const today = new Date(2024, 5, 15);
+
+it('accepts only real YYYY-MM-DD dates', () => {
+  expect(isValidIsoDate('2024-02-29')).toBe(true);
+  expect(isValidIsoDate('2023-02-29')).toBe(false);
+  expect(isValidIsoDate('2024-6-1')).toBe(false);
+});
+
+it('requires a species and an acquisition date that is not in the future', () => {
+  expect(validatePlantEdit(values, today)).toEqual({});
+  expect(validatePlantEdit({ ...values, type: ' ' }, today).type).toBeDefined();
+  expect(validatePlantEdit({ ...values, acquiredDate: '2024-06-15' }, today)).toEqual({});
+  expect(validatePlantEdit({ ...values, acquiredDate: '2024-06-16' }, today).acquiredDate).toBeDefined();
+  expect(validatePlantEdit({ ...values, acquiredDate: '15/06/2024' }, today).acquiredDate).toBe(
+    'Use the format YYYY-MM-DD'
+  );
+});
+
+it('needs text or a photo in a journal entry', () => {
+  expect(validateJournalEntry({ date: '2024-06-01', text: ' ' }, 0, today).text).toBeDefined();
+  expect(validateJournalEntry({ date: '2024-06-01', text: '' }, 1, today)).toEqual({});
+  expect(validateJournalEntry({ date: '2024-07-01', text: 'New leaf' }, 0, today).date).toBeDefined();
+});
+
+it('checks username length and characters', () => {
+  expect(validateUsername('fern_lover.42')).toBeNull();
+  expect(validateUsername('')).toBe('Please enter a username');
+  expect(validateUsername('ab')).toBe('Username must be 3-30 characters');
+  expect(validateUsername('a'.repeat(31))).toBe('Username must be 3-30 characters');
+  expect(validateUsername('fern lover')).toMatch(/can only contain/);
+});
+
+it('names the first password rule that is not met', () => {
+  expect(validatePassword('Monstera7')).toBeNull();
+  expect(validatePassword('')).toBe('Please enter a password');
+  expect(validatePassword('Mon7')).toBe('Password needs: at least 8 characters');
+  expect(validatePassword('MONSTERA7')).toBe('Password needs: a lowercase letter');
+  expect(validatePassword('Monstera')).toBe('Password needs: a number');
+});
+
+it('requires a matching confirmation for a new password', () => {
+  expect(validateNewPassword('Monstera7', 'Monstera7')).toEqual({});
+  expect(validateNewPassword('Monstera7', '')).toEqual({ confirmPassword: 'Please confirm your password' });
+  expect(validateNewPassword('Monstera7', 'Monstera8')).toEqual({ confirmPassword: 'Passwords do not match' });
+  expect(validateNewPassword('monstera', 'monstera')).toEqual({ password: 'Password needs: an uppercase letter' });
+});
+
+it('collects an error for every registration field', () => {
+  expect(validateRegistration('fern', 'Monstera7', 'Monstera7')).toEqual({});
+  expect(validateRegistration('', 'short', 'other')).toEqual({
+    username: 'Please enter a username',
+    password: 'Password needs: at least 8 characters',
+    confirmPassword: 'Passwords do not match',
+  });
+});
+
+it('scores password strength', () => {
+  expect(getPasswordStrength('')).toEqual({ score: 0, label: 'Too weak' });
+  expect(getPasswordStrength('Ab1!').score).toBe(0); // Too short, whatever it contains
+  expect(getPasswordStrength('password').score).toBe(0);
+  expect(getPasswordStrength('11111111111111')).toEqual({ score: 1, label: 'Weak' });
+  expect(getPasswordStrength('Password1')).toEqual({ score: 2, label: 'Fair' });
+  expect(getPasswordStrength('Password1234')).toEqual({ score: 3, label: 'Good' });
+  expect(getPasswordStrength('Correct-Horse-9')).toEqual({ score: 4, label: 'Strong' });
+});
+
+it('maps a 422 detail onto form fields', () => {
+  const error = new ApiError('Validation failed', 'http', 422, [
+    { loc: ['body', 'username'], msg: 'Username is taken', type: 'value_error' },
+    { loc: ['body', 'password'], msg: 'Too common', type: 'value_error' },
+    { loc: ['body', 'password'], msg: 'Too short', type: 'value_error' },
+    { loc: ['body', 'invite'], msg: 'Invite has expired', type: 'value_error' },
+  ]);
+
+  expect(getServerFieldErrors(error, 'Registration failed', { username: 'username', password: 'password' })).toEqual({
+    username: 'Username is taken',
+    password: 'Too common\nToo short',
+    form: 'Invite has expired',
+  });
+});
+
+it('falls back to a form error when the failure is not a 422', () => {
+  const fields = { username: 'username' };
+
+  expect(getServerFieldErrors(new ApiError('Conflict', 'http', 409, 'Username already exists'), 'Failed', fields))
+    .toEqual({ form: 'Username already exists' });
+  expect(getServerFieldErrors(new ApiError('Network request failed', 'network'), 'Failed', fields))
+    .toEqual({ form: 'Network request failed' });
+  expect(getServerFieldErrors(new Error('boom'), 'Failed', fields)).toEqual({ form: 'Failed' });
+});
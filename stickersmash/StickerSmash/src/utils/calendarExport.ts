@@ -0,0 +1,52 @@
+// src/utils/calendarExport.ts - hand the care calendar to the share sheet, or download it on web
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CareTask } from '../storage/careSchedule';
+import { buildCareCalendar } from './icalendar';
+
+const MIME_TYPE = 'text/calendar';
+// Some browsers start the download after click() returns, so the blob URL has to outlive it
+const REVOKE_DELAY_MS = 1000;
+
+// Turn a plant name into something safe to use in a file name
+const toFileName = (name: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'plant-care'}.ics`;
+
+const downloadOnWeb = (contents: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: MIME_TYPE }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Throws if there is nothing to export or the device can't share files
+export const exportCareCalendar = async (tasks: CareTask[], name: string) => {
+  if (tasks.length === 0) {
+    throw new Error('There are no care tasks to export yet.');
+  }
+
+  const contents = buildCareCalendar(tasks, { name });
+  const fileName = toFileName(name);
+
+  if (Platform.OS === 'web') {
+    downloadOnWeb(contents, fileName);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  await Sharing.shareAsync(uri, {
+    mimeType: MIME_TYPE,
+    UTI: 'public.calendar-event',
+    dialogTitle: 'Export care calendar',
+  });
+};
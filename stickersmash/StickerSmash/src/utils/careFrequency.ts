@@ -0,0 +1,123 @@
+// src/utils/careFrequency.ts - turn care text like "Every 1-2 weeks" into a number of days
+import { CareInfo } from '../screens/PlantDetailScreen';
+
+export type CareTaskType = 'water' | 'fertilize' | 'mist';
+
+export type CareInterval = {
+  minDays: number;
+  maxDays: number;
+  days: number; // What the schedule uses
+};
+
+type CareTaskDefinition = {
+  label: string;
+  icon: 'water-outline' | 'leaf-outline' | 'cloud-outline';
+  field: keyof CareInfo; // Care text the interval is read from
+  defaultDays: number | null; // Used when the text has no frequency; null means no task
+};
+
+export const CARE_TASKS: Record<CareTaskType, CareTaskDefinition> = {
+  water: { label: 'Water', icon: 'water-outline', field: 'watering_frequency', defaultDays: 7 },
+  fertilize: { label: 'Fertilize', icon: 'leaf-outline', field: 'fertilization', defaultDays: 30 },
+  mist: { label: 'Mist', icon: 'cloud-outline', field: 'humidity', defaultDays: null },
+};
+
+export const CARE_TASK_TYPES = Object.keys(CARE_TASKS) as CareTaskType[];
+
+// Misting isn't usually given a frequency, only "mist regularly"
+const DEFAULT_MIST_DAYS = 3;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const WORD_NUMBERS: Record<string, string> = {
+  one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', ten: '10', eleven: '11', twelve: '12',
+};
+
+const KEYWORDS: [RegExp, number][] = [
+  [/\b(daily|every\s*day)\b/, 1],
+  [/\b(bi-?weekly|fortnightly|every\s+other\s+week)\b/, 14],
+  [/\bweekly\b/, 7],
+  [/\b(bi-?monthly|every\s+other\s+month)\b/, 60],
+  [/\bmonthly\b/, 30],
+  [/\b(yearly|annually)\b/, 365],
+];
+
+// How far into a range the suggested interval sits
+const RANGE_POSITION = 0.25;
+
+const toInterval = (minDays: number, maxDays: number): CareInterval | null => {
+  if (!(minDays > 0) || !(maxDays >= minDays)) return null;
+  // Lean towards the shorter end of a range; a reminder to check is better than a dry plant
+  return { minDays, maxDays, days: Math.max(1, minDays + Math.floor((maxDays - minDays) * RANGE_POSITION)) };
+};
+
+// Returns null when the text doesn't give a frequency (e.g. "When the top inch of soil is dry")
+export const parseCareFrequency = (text?: string | null): CareInterval | null => {
+  if (!text) return null;
+
+  const lower = text
+    .toLowerCase()
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b/g, (word) => WORD_NUMBERS[word]);
+
+  // "1-2 weeks", "10 to 14 days"
+  const range = lower.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to|or)\s*(\d+(?:\.\d+)?)\s*(day|week|month|year)s?\b/);
+  if (range) {
+    const unit = UNIT_DAYS[range[3]];
+    return toInterval(Math.round(Number(range[1]) * unit), Math.round(Number(range[2]) * unit));
+  }
+
+  // "twice a week", "3 times per month"
+  const times = lower.match(/\b(once|twice|(\d+)\s*times)\s*(?:a|an|per|each|every)\s*(day|week|month|year)\b/);
+  if (times) {
+    const count = times[1] === 'once' ? 1 : times[1] === 'twice' ? 2 : Number(times[2]);
+    const days = Math.max(1, Math.round(UNIT_DAYS[times[3]] / count));
+    return toInterval(days, days);
+  }
+
+  // "every 3 days", "every week"
+  const every = lower.match(/\bevery\s+(\d+(?:\.\d+)?)?\s*(day|week|month|year)s?\b/);
+  if (every) {
+    const days = Math.round(Number(every[1] || 1) * UNIT_DAYS[every[2]]);
+    return toInterval(days, days);
+  }
+
+  const keyword = KEYWORDS.find(([pattern]) => pattern.test(lower));
+  return keyword ? toInterval(keyword[1], keyword[1]) : null;
+};
+
+// Suggested interval for each task the plant needs, from its species care info (if known)
+export const suggestCareIntervals = (careInfo: CareInfo | null): Partial<Record<CareTaskType, number>> => {
+  const intervals: Partial<Record<CareTaskType, number>> = {};
+
+  CARE_TASK_TYPES.forEach((type) => {
+    const { field, defaultDays } = CARE_TASKS[type];
+    const text = careInfo?.[field];
+    const parsed = parseCareFrequency(text);
+
+    if (parsed) {
+      intervals[type] = parsed.days;
+    } else if (type === 'mist') {
+      if (text && /\bmist/i.test(text)) intervals.mist = DEFAULT_MIST_DAYS;
+    } else if (defaultDays) {
+      intervals[type] = defaultDays;
+    }
+  });
+
+  return intervals;
+};
+
+export const formatInterval = (days: number) => {
+  if (days === 1) return 'Every day';
+  if (days === 7) return 'Every week';
+  if (days % 7 === 0) return `Every ${days / 7} weeks`;
+  return `Every ${days} days`;
+};
+
+// `days` is from getDaysUntilDue: negative when overdue
+export const formatDueIn = (days: number) => {
+  if (days < 0) return `Overdue by ${-days} day${days === -1 ? '' : 's'}`;
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+};
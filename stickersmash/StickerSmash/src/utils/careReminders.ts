@@ -0,0 +1,135 @@
+// src/utils/careReminders.ts - local notifications for upcoming care tasks
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { CareTask, getTaskDueDate } from '../storage/careSchedule';
+import { CARE_TASKS } from './careFrequency';
+
+// Hour of the day reminders go off, from app.json `extra.care.reminderHour`
+export const REMINDER_HOUR: number = Constants.expoConfig?.extra?.care?.reminderHour ?? 9;
+
+// iOS keeps at most 64 pending notifications per app
+const MAX_SCHEDULED_REMINDERS = 60;
+
+const CHANNEL_ID = 'care-reminders';
+
+export type CareReminder = {
+  date: Date;
+  title: string;
+  body: string;
+  taskIds: string[];
+};
+
+// Show reminders that arrive while the app is open, too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+const reminderDate = (dueDate: string) => {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day, REMINDER_HOUR);
+};
+
+// One reminder per day that has tasks due, soonest first; overdue tasks are shown in the app instead
+export const buildReminders = (tasks: CareTask[], now: Date = new Date()): CareReminder[] => {
+  const byDay = new Map<string, CareTask[]>();
+  tasks.forEach((task) => {
+    const dueDate = getTaskDueDate(task);
+    byDay.set(dueDate, [...(byDay.get(dueDate) || []), task]);
+  });
+
+  return [...byDay.entries()]
+    .map(([dueDate, dayTasks]): CareReminder => {
+      const [first] = dayTasks;
+      const label = CARE_TASKS[first.type].label;
+      return {
+        date: reminderDate(dueDate),
+        title: dayTasks.length === 1 ? `Time to ${label.toLowerCase()} ${first.plantName}` : `${dayTasks.length} plant care tasks today`,
+        body: dayTasks.length === 1
+          ? `${first.plantName} is due for care today.`
+          : dayTasks.map((task) => `${CARE_TASKS[task.type].label} ${task.plantName}`).join(', '),
+        taskIds: dayTasks.map((task) => task.id),
+      };
+    })
+    .filter((reminder) => reminder.date.getTime() > now.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+};
+
+let permissionRequest: Promise<boolean> | null = null;
+
+// Asks once per launch; reminders are silently skipped if the user says no
+const ensurePermission = () => {
+  if (!permissionRequest) {
+    permissionRequest = (async () => {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Care reminders',
+          importance: Notifications.AndroidImportance.DEFAULT,
+        });
+      }
+
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted || !current.canAskAgain) {
+        return current.granted;
+      }
+      return (await Notifications.requestPermissionsAsync()).granted;
+    })().catch((error) => {
+      console.warn('Could not get notification permission:', error);
+      permissionRequest = null;
+      return false;
+    });
+  }
+  return permissionRequest;
+};
+
+// Reminder changes run one at a time, in order: interleaving one cancel-and-reschedule with
+// another leaves duplicates behind, and a clear must not be undone by a sync still in flight
+let pendingChange: Promise<void> = Promise.resolve();
+// Bumped by every sync or clear; queued work that has been overtaken is skipped
+let latestChange = 0;
+
+const enqueueChange = (change: () => Promise<void>) => {
+  const id = ++latestChange;
+  pendingChange = pendingChange.then(() => (id === latestChange ? change() : undefined));
+  return pendingChange;
+};
+
+// Replace every scheduled reminder with ones for `tasks` (local notifications aren't available on web)
+export const syncCareReminders = (tasks: CareTask[]) => {
+  if (Platform.OS === 'web') return Promise.resolve();
+
+  return enqueueChange(async () => {
+    try {
+      await Notifications.cancelAllScheduledNotificationsAsync();
+      const reminders = buildReminders(tasks);
+      if (reminders.length === 0 || !(await ensurePermission())) return;
+
+      await Promise.all(
+        reminders.map((reminder) =>
+          Notifications.scheduleNotificationAsync({
+            content: {
+              title: reminder.title,
+              body: reminder.body,
+              data: { taskIds: reminder.taskIds },
+            },
+            trigger: { date: reminder.date, channelId: CHANNEL_ID },
+          })
+        )
+      );
+      console.log(`Scheduled ${reminders.length} care reminders`);
+    } catch (error) {
+      console.error('Error scheduling care reminders:', error);
+    }
+  });
+};
+
+export const clearCareReminders = () => {
+  if (Platform.OS === 'web') return Promise.resolve();
+
+  return enqueueChange(() => Notifications.cancelAllScheduledNotificationsAsync().catch(() => {}));
+};
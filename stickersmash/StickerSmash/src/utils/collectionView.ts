@@ -0,0 +1,208 @@
+// src/utils/collectionView.ts - how the collection is sorted and filtered
+import { Plant } from '../screens/PlantDetailScreen';
+import { PlantQuery } from '../types/api';
+import { toLocalIsoDate } from './validation';
+
+export type CollectionSort = 'name' | 'species' | 'dateAdded' | 'confidence' | 'nextCare';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type CollectionLayout = 'list' | 'grid' | 'grouped';
+
+export type CollectionFilters = {
+  species: string[]; // Any of these; empty means all
+  locations: string[];
+  minConfidence: number; // 0-1
+  maxConfidence: number;
+  addedFrom: string | null; // YYYY-MM-DD, inclusive
+  addedTo: string | null;
+  hasPhoto: boolean | null; // null means either
+};
+
+export type CollectionPreferences = {
+  sort: CollectionSort;
+  direction: SortDirection;
+  filters: CollectionFilters;
+  layout: CollectionLayout;
+};
+
+export const COLLECTION_SORTS: Record<CollectionSort, { label: string; defaultDirection: SortDirection }> = {
+  name: { label: 'Name', defaultDirection: 'asc' },
+  species: { label: 'Species', defaultDirection: 'asc' },
+  dateAdded: { label: 'Date added', defaultDirection: 'desc' },
+  confidence: { label: 'Confidence', defaultDirection: 'desc' },
+  nextCare: { label: 'Next care due', defaultDirection: 'asc' },
+};
+
+export const COLLECTION_SORT_OPTIONS = Object.keys(COLLECTION_SORTS) as CollectionSort[];
+
+export const DEFAULT_COLLECTION_FILTERS: CollectionFilters = {
+  species: [],
+  locations: [],
+  minConfidence: 0,
+  maxConfidence: 1,
+  addedFrom: null,
+  addedTo: null,
+  hasPhoto: null,
+};
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+// Card layouts; `minWidth` is the narrowest a card gets before a column is dropped
+export const COLLECTION_LAYOUTS: Record<
+  CollectionLayout,
+  { label: string; icon: 'list' | 'grid' | 'layers'; minWidth: number; minColumns: number; maxColumns: number }
+> = {
+  list: { label: 'List', icon: 'list', minWidth: 340, minColumns: 1, maxColumns: 3 },
+  grid: { label: 'Photo grid', icon: 'grid', minWidth: 110, minColumns: 3, maxColumns: 8 },
+  grouped: { label: 'By species', icon: 'layers', minWidth: 340, minColumns: 1, maxColumns: 3 },
+};
+
+export const COLLECTION_LAYOUT_OPTIONS = Object.keys(COLLECTION_LAYOUTS) as CollectionLayout[];
+
+// Newest first, the order the server has always returned
+export const DEFAULT_COLLECTION_PREFERENCES: CollectionPreferences = {
+  sort: 'dateAdded',
+  direction: 'desc',
+  filters: DEFAULT_COLLECTION_FILTERS,
+  layout: 'list',
+};
+
+// More columns on tablets and wide browser windows
+export const getColumnCount = (layout: CollectionLayout, width: number) => {
+  const { minWidth, minColumns, maxColumns } = COLLECTION_LAYOUTS[layout];
+  return Math.min(maxColumns, Math.max(minColumns, Math.floor(width / minWidth)));
+};
+
+// Split items into rows of `size`, for grids that can't use FlatList's numColumns
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Sections by species in alphabetical order, keeping the chosen sort within each one
+export const groupBySpecies = <T>(items: T[], getPlant: (item: T) => Plant) => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const species = getPlant(item).type;
+    groups.set(species, [...(groups.get(species) || []), item]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => compareText(a, b))
+    .map(([species, members]) => ({ species, count: members.length, items: members }));
+};
+
+// Days until each plant's next care task; plants without tasks are left out
+export type NextCareDue = Map<string, number>;
+
+const plantName = (plant: Plant) => plant.name || plant.type;
+
+// Calendar date the plant was added, in local time like the date filters
+const addedDate = (plant: Plant) => {
+  const date = new Date(plant.date_added);
+  return Number.isNaN(date.getTime()) ? null : toLocalIsoDate(date);
+};
+
+const compareBy = (sort: CollectionSort, nextCareDue: NextCareDue) => (a: Plant, b: Plant) => {
+  switch (sort) {
+    case 'name':
+      return compareText(plantName(a), plantName(b));
+    case 'species':
+      return compareText(a.type, b.type) || compareText(plantName(a), plantName(b));
+    case 'dateAdded':
+      return new Date(a.date_added).getTime() - new Date(b.date_added).getTime();
+    case 'confidence':
+      return (a.confidence || 0) - (b.confidence || 0);
+    case 'nextCare':
+      return (nextCareDue.get(a._id) ?? Infinity) - (nextCareDue.get(b._id) ?? Infinity);
+  }
+};
+
+export const countActiveFilters = (filters: CollectionFilters) =>
+  [
+    filters.species.length > 0,
+    filters.locations.length > 0,
+    filters.minConfidence > 0 || filters.maxConfidence < 1,
+    !!filters.addedFrom || !!filters.addedTo,
+    filters.hasPhoto !== null,
+  ].filter(Boolean).length;
+
+export const matchesFilters = (plant: Plant, filters: CollectionFilters) => {
+  if (filters.species.length > 0 && !filters.species.includes(plant.type)) return false;
+  if (filters.locations.length > 0 && !filters.locations.includes(plant.location?.trim() || '')) return false;
+
+  const confidence = plant.confidence || 0;
+  if (confidence < filters.minConfidence || confidence > filters.maxConfidence) return false;
+
+  const added = addedDate(plant);
+  if (filters.addedFrom && (!added || added < filters.addedFrom)) return false;
+  if (filters.addedTo && (!added || added > filters.addedTo)) return false;
+
+  if (filters.hasPhoto !== null && !!plant.image_url !== filters.hasPhoto) return false;
+
+  return true;
+};
+
+// Plants without a value for the sort (e.g. no care tasks) go last in either direction
+export const applyCollectionPreferences = (
+  plants: Plant[],
+  { sort, direction, filters }: CollectionPreferences,
+  nextCareDue: NextCareDue = new Map()
+) => {
+  const compare = compareBy(sort, nextCareDue);
+  const hasValue = (plant: Plant) => sort !== 'nextCare' || nextCareDue.has(plant._id);
+
+  return plants
+    .filter((plant) => matchesFilters(plant, filters))
+    .sort((a, b) => {
+      if (hasValue(a) !== hasValue(b)) return hasValue(a) ? -1 : 1;
+      return direction === 'asc' ? compare(a, b) : compare(b, a);
+    });
+};
+
+// Distinct species and locations in the collection, for the filter choices
+export const getFilterOptions = (plants: Plant[]) => {
+  const unique = (values: string[]) =>
+    [...new Set(values.filter(Boolean))].sort(compareText);
+
+  return {
+    species: unique(plants.map((plant) => plant.type)),
+    locations: unique(plants.map((plant) => plant.location?.trim() || '')),
+  };
+};
+
+// Server field names for each sort the backend can do itself; care schedules only live on the device
+const SERVER_SORT_FIELDS: Partial<Record<CollectionSort, string>> = {
+  name: 'name',
+  species: 'type',
+  dateAdded: 'date_added',
+  confidence: 'confidence',
+};
+
+// GET /api/plants query parameters describing the same view (layout is display only); lists repeat the parameter
+export const toPlantQuery = ({ sort, direction, filters }: CollectionPreferences) => {
+  const query: PlantQuery = {};
+
+  if (SERVER_SORT_FIELDS[sort]) {
+    query.sort = SERVER_SORT_FIELDS[sort]!;
+    query.order = direction;
+  }
+  if (filters.species.length > 0) query.type = filters.species;
+  if (filters.locations.length > 0) query.location = filters.locations;
+  if (filters.minConfidence > 0) query.min_confidence = String(filters.minConfidence);
+  if (filters.maxConfidence < 1) query.max_confidence = String(filters.maxConfidence);
+  if (filters.addedFrom) query.added_from = filters.addedFrom;
+  if (filters.addedTo) query.added_to = filters.addedTo;
+  if (filters.hasPhoto !== null) query.has_photo = String(filters.hasPhoto);
+
+  return query;
+};
+
+// Plant ids the server returned for a filtered GET /api/plants, and which plants existed when it was asked
+export type ServerMatches = {
+  queried: Set<string>;
+  matched: Set<string>;
+};
+
+// Hide plants the server filtered out; plants added since the request go by the local filters alone
+export const applyServerMatches = (plants: Plant[], { queried, matched }: ServerMatches) =>
+  plants.filter((plant) => !queried.has(plant._id) || matched.has(plant._id));
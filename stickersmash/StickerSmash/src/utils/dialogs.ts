@@ -0,0 +1,34 @@
+// src/utils/dialogs.ts - questions that need an answer before continuing
+import { Platform, Alert } from 'react-native';
+
+type ConfirmOptions = {
+  title: string;
+  message: string;
+  confirmText?: string;
+  // Shows the confirm button in red on iOS
+  destructive?: boolean;
+};
+
+// Resolves true if the user confirmed; Alert.alert buttons do nothing on web, so use window.confirm there
+export const confirmAction = ({
+  title,
+  message,
+  confirmText = 'OK',
+  destructive = false,
+}: ConfirmOptions): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${title}: ${message}`));
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: destructive ? 'destructive' : 'default', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
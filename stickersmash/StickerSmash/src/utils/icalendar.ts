@@ -0,0 +1,98 @@
+// src/utils/icalendar.ts - care schedule as an iCalendar (RFC 5545) file
+import { CareTask, addDays, getDaysUntilDue, getTaskDueDate, getTaskInterval } from '../storage/careSchedule';
+import { CARE_TASKS } from './careFrequency';
+import { toLocalIsoDate } from './validation';
+
+const PRODUCT_ID = '-//Floradex//Plant Care//EN';
+const UID_DOMAIN = 'floradex.app';
+
+// Content lines longer than this (in UTF-8 octets) must be folded
+const MAX_LINE_OCTETS = 75;
+
+// TEXT values escape backslashes, separators and newlines
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+// Split a long line into 75-octet chunks joined by CRLF + space, never inside a character
+export const foldLine = (line: string) => {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const formatDate = (isoDate: string) => isoDate.replace(/-/g, '');
+
+// UTC date-time, e.g. 20240501T093000Z
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Weekly intervals read better in calendar apps than "every 14 days"
+const recurrenceRule = (days: number) =>
+  days % 7 === 0 ? `RRULE:FREQ=WEEKLY;INTERVAL=${days / 7}` : `RRULE:FREQ=DAILY;INTERVAL=${days}`;
+
+const buildEvent = (task: CareTask, now: Date) => {
+  const label = CARE_TASKS[task.type].label;
+  const interval = getTaskInterval(task);
+  // Overdue tasks start today so the series doesn't begin in the past
+  const start = getDaysUntilDue(task, now) < 0 ? toLocalIsoDate(now) : getTaskDueDate(task);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${task.id.replace(/[^A-Za-z0-9-]/g, '-')}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatTimestamp(now)}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`,
+    recurrenceRule(interval),
+    `SUMMARY:${escapeText(`${label} ${task.plantName}`)}`,
+    `DESCRIPTION:${escapeText(`${label} ${task.plantName} every ${interval} day${interval === 1 ? '' : 's'}.`)}`,
+    'CATEGORIES:Plant care',
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+};
+
+// One all-day recurring event per task; lines end in CRLF as the spec requires
+export const buildCareCalendar = (
+  tasks: CareTask[],
+  { name = 'Plant care', now = new Date() }: { name?: string; now?: Date } = {}
+) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...tasks.flatMap((task) => buildEvent(task, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,110 @@
+// src/utils/identification.ts
+import { Prediction } from '../screens/PlantDetailScreen';
+import { IdentificationResult, SpeciesSource } from '../types/api';
+
+// More photos rarely help and each one is a separate upload
+export const MAX_IDENTIFY_PHOTOS = 4;
+
+// Confidence a photo gave a plant type, counting types it didn't predict as 0
+const confidenceFor = (result: IdentificationResult, plantType: string) => {
+  if (result.plant_type === plantType) {
+    return result.confidence;
+  }
+  const prediction = (result.all_predictions || []).find((p) => p.plant_type === plantType);
+  return prediction ? prediction.confidence : 0;
+};
+
+// Combine per-photo results into one, ranking plant types by their average confidence across photos
+export const mergeIdentificationResults = (
+  results: IdentificationResult[],
+  imageUris: string[]
+): IdentificationResult => {
+  if (results.length === 1) {
+    return { ...results[0], image_url: imageUris[0] };
+  }
+
+  const plantTypes = new Set<string>();
+  results.forEach((result) => {
+    if (result.plant_type) plantTypes.add(result.plant_type);
+    (result.all_predictions || []).forEach((p) => plantTypes.add(p.plant_type));
+  });
+
+  const merged: Prediction[] = Array.from(plantTypes)
+    .map((plantType) => ({
+      plant_type: plantType,
+      confidence:
+        results.reduce((sum, result) => sum + confidenceFor(result, plantType), 0) / results.length,
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const top = merged[0] || { plant_type: 'Unknown', confidence: 0 };
+
+  const photos = results.map((result, index) => ({
+    uri: imageUris[index],
+    plant_type: result.plant_type,
+    top_confidence: confidenceFor(result, top.plant_type),
+  }));
+
+  const bestPhotoIndex = photos.reduce(
+    (best, photo, index) => (photo.top_confidence > photos[best].top_confidence ? index : best),
+    0
+  );
+
+  // Care info is per species, so take it from a photo that agrees with the merged answer
+  const careSource = results.find((result) => result.plant_type === top.plant_type && result.care_info);
+
+  return {
+    plant_type: top.plant_type,
+    confidence: top.confidence,
+    all_predictions: merged,
+    image_url: imageUris[bestPhotoIndex],
+    care_info: careSource?.care_info,
+    photos,
+    best_photo_index: bestPhotoIndex,
+  };
+};
+
+export type SpeciesChoice = Prediction & {
+  source: SpeciesSource;
+};
+
+// Every candidate species, best first, with the top prediction included exactly once
+export const getPredictionOptions = (result: IdentificationResult): Prediction[] => {
+  const options: Prediction[] = [];
+  const seen = new Set<string>();
+  [{ plant_type: result.plant_type, confidence: result.confidence }, ...(result.all_predictions || [])]
+    .forEach((prediction) => {
+      if (prediction.plant_type && !seen.has(prediction.plant_type)) {
+        seen.add(prediction.plant_type);
+        options.push(prediction);
+      }
+    });
+  return options.sort((a, b) => b.confidence - a.confidence);
+};
+
+// The species the user settled on: a selected prediction (null means the top one) or a typed name.
+// Returns null when manual entry is chosen but nothing has been typed yet.
+export const resolveSpeciesChoice = (
+  result: IdentificationResult,
+  selectedType: string | null,
+  manualSpecies: string | null
+): SpeciesChoice | null => {
+  const options = getPredictionOptions(result);
+
+  if (manualSpecies !== null) {
+    const name = manualSpecies.trim();
+    if (!name) return null;
+    // Typing one of the predictions counts as choosing it
+    const match = options.find((p) => p.plant_type.toLowerCase() === name.toLowerCase());
+    if (!match) return { plant_type: name, confidence: 0, source: 'manual' };
+    selectedType = match.plant_type;
+  }
+
+  const chosen = options.find((p) => p.plant_type === selectedType) || options[0];
+  if (!chosen) return null;
+
+  return {
+    ...chosen,
+    source: chosen.plant_type === result.plant_type ? 'model' : 'alternative',
+  };
+};
@@ -0,0 +1,111 @@
+// src/utils/imageProcessing.ts - shrink photos before they are uploaded
+import { Image } from 'react-native';
+import Constants from 'expo-constants';
+import * as ImageManipulator from 'expo-image-manipulator';
+
+export type ImageProcessingOptions = {
+  // Longest side in pixels; smaller images are never scaled up
+  maxDimension: number;
+  // JPEG quality between 0 and 1
+  quality: number;
+  // Also return the encoded image as base64 (without the data: prefix)
+  base64?: boolean;
+};
+
+export type ProcessedImage = {
+  uri: string;
+  width: number;
+  height: number;
+  base64?: string;
+  originalBytes: number;
+  processedBytes: number;
+};
+
+const imageExtra: Partial<ImageProcessingOptions> = Constants.expoConfig?.extra?.imageProcessing ?? {};
+
+// Defaults from app.json `extra.imageProcessing`; the model only needs a fraction of a camera photo
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxDimension: imageExtra.maxDimension || 1280,
+  quality: imageExtra.quality || 0.7,
+};
+
+// Resize action that fits the image inside maxDimension, or none if it already fits
+export const getResizeActions = (
+  width: number,
+  height: number,
+  maxDimension: number
+): ImageManipulator.Action[] => {
+  if (!width || !height || Math.max(width, height) <= maxDimension) {
+    return [];
+  }
+  // Only pass the longer side so the manipulator keeps the aspect ratio
+  return [{ resize: width >= height ? { width: maxDimension } : { height: maxDimension } }];
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shown to the user after uploading; also takes totals for several photos
+export const describeSavings = ({ originalBytes, processedBytes }: Pick<ProcessedImage, 'originalBytes' | 'processedBytes'>) => {
+  if (!originalBytes || !processedBytes) {
+    return `Compressed image to ${formatBytes(processedBytes)}`;
+  }
+  const saved = Math.max(0, Math.round((1 - processedBytes / originalBytes) * 100));
+  return `Compressed image from ${formatBytes(originalBytes)} to ${formatBytes(processedBytes)} (${saved}% smaller)`;
+};
+
+const getImageSize = (uri: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+  });
+
+// Size in bytes of a local or data URI; 0 if it can't be read
+const getByteSize = async (uri: string) => {
+  try {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    return blob.size;
+  } catch (error) {
+    console.warn('Could not read image size:', error);
+    return 0;
+  }
+};
+
+// Downsize and re-encode as JPEG. Re-encoding also drops EXIF metadata such as GPS location.
+export const prepareImageForUpload = async (
+  uri: string,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<ProcessedImage> => {
+  const { maxDimension, quality, base64 } = { ...DEFAULT_IMAGE_PROCESSING, ...options };
+
+  let actions: ImageManipulator.Action[] = [];
+  try {
+    const { width, height } = await getImageSize(uri);
+    actions = getResizeActions(width, height, maxDimension);
+  } catch (error) {
+    // Still re-encode so the quality setting and EXIF stripping apply
+    console.warn('Could not read image dimensions, skipping resize:', error);
+  }
+
+  const originalBytes = await getByteSize(uri);
+  const result = await ImageManipulator.manipulateAsync(uri, actions, {
+    compress: quality,
+    format: ImageManipulator.SaveFormat.JPEG,
+    base64,
+  });
+
+  const processed: ProcessedImage = {
+    uri: result.uri,
+    width: result.width,
+    height: result.height,
+    base64: result.base64,
+    originalBytes,
+    processedBytes: await getByteSize(result.uri),
+  };
+
+  console.log(`${describeSavings(processed)}, ${processed.width}x${processed.height}`);
+  return processed;
+};
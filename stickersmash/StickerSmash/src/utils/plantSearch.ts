@@ -0,0 +1,151 @@
+// src/utils/plantSearch.ts - forgiving search over the collection: ignores case, accents and small typos
+import { Plant } from '../screens/PlantDetailScreen';
+
+export type SearchField = 'name' | 'type' | 'notes';
+
+// [start, end) offsets into the original field text
+export type MatchRange = [number, number];
+
+export type PlantSearchResult = {
+  plant: Plant;
+  matches: Partial<Record<SearchField, MatchRange[]>>;
+};
+
+const SEARCH_FIELDS: SearchField[] = ['name', 'type', 'notes'];
+
+// Shorter words have to match exactly; typos in them match too much
+const MIN_FUZZY_LENGTH = 4;
+
+type NormalizedText = {
+  text: string;
+  // Offset in the original string for each character of `text`
+  offsets: number[];
+};
+
+// Lowercase and strip accents, remembering where each character came from so matches can be
+// highlighted in the original text
+export const normalizeForSearch = (value: string): NormalizedText => {
+  let text = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const normalized = value[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const char of normalized) {
+      text += char;
+      offsets.push(i);
+    }
+  }
+
+  return { text, offsets };
+};
+
+const allowedTypos = (length: number) => (length < MIN_FUZZY_LENGTH ? 0 : length < 8 ? 1 : 2);
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+// Where a single search term appears in normalized text: as-is, or as a close misspelling of the
+// start of a word (so "monstra" finds "Monstera" while the user is still typing)
+const findTerm = (text: string, term: string): [number, number] | null => {
+  const index = text.indexOf(term);
+  if (index !== -1) return [index, index + term.length];
+
+  const typos = allowedTypos(term.length);
+  if (typos === 0) return null;
+
+  let best: { range: [number, number]; distance: number } | null = null;
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = word.index!;
+    for (let length = term.length - typos; length <= term.length + typos; length++) {
+      if (length < 1 || length > word[0].length) continue;
+      const distance = editDistance(term, word[0].slice(0, length));
+      if (distance <= typos && (!best || distance < best.distance)) {
+        best = { range: [start, start + length], distance };
+      }
+    }
+  }
+
+  return best?.range ?? null;
+};
+
+// Sort and join overlapping ranges so each character is highlighted once
+export const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+
+export const getSearchTerms = (query: string) =>
+  normalizeForSearch(query).text.split(/\s+/).filter(Boolean);
+
+// Plants where every search term matches at least one field, in collection order
+export const searchPlants = (plants: Plant[], query: string): PlantSearchResult[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return plants.map((plant) => ({ plant, matches: {} }));
+  }
+
+  return plants.flatMap((plant) => {
+    const fields = SEARCH_FIELDS.map((field) => ({
+      field,
+      normalized: normalizeForSearch(plant[field] || ''),
+    }));
+    const matches: PlantSearchResult['matches'] = {};
+
+    for (const term of terms) {
+      let found = false;
+      for (const { field, normalized } of fields) {
+        const range = findTerm(normalized.text, term);
+        if (!range) continue;
+
+        found = true;
+        const { offsets } = normalized;
+        matches[field] = [...(matches[field] || []), [offsets[range[0]], offsets[range[1] - 1] + 1]];
+      }
+      if (!found) return [];
+    }
+
+    for (const field of SEARCH_FIELDS) {
+      if (matches[field]) matches[field] = mergeRanges(matches[field]!);
+    }
+    return [{ plant, matches }];
+  });
+};
+
+// A short piece of text around the first match, for showing why a plant matched its notes
+export const getMatchSnippet = (text: string, ranges: MatchRange[], context = 30) => {
+  const [start, end] = ranges[0];
+  const from = Math.max(0, start - context);
+  const to = Math.min(text.length, end + context);
+  const prefix = from > 0 ? '…' : '';
+
+  return {
+    text: `${prefix}${text.slice(from, to)}${to < text.length ? '…' : ''}`,
+    ranges: ranges
+      .filter(([s, e]) => s >= from && e <= to)
+      .map(([s, e]): MatchRange => [s - from + prefix.length, e - from + prefix.length]),
+  };
+};
@@ -0,0 +1,223 @@
+// src/utils/validation.ts
+import { ApiError, formatErrorDetail } from '../api/client';
+import { ValidationErrorItem } from '../types/api';
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+export const PASSWORD_MIN_LENGTH = 8;
+
+export type RegistrationField = 'username' | 'password' | 'confirmPassword';
+
+// Errors keyed by form field, plus 'form' for anything that isn't tied to one
+export type FieldErrors<F extends string = RegistrationField> = Partial<Record<F | 'form', string>>;
+
+export type PasswordRule = {
+  label: string;
+  test: (password: string) => boolean;
+};
+
+// Shown as a checklist under the password field while registering
+export const PASSWORD_RULES: PasswordRule[] = [
+  { label: `At least ${PASSWORD_MIN_LENGTH} characters`, test: (p) => p.length >= PASSWORD_MIN_LENGTH },
+  { label: 'A lowercase letter', test: (p) => /[a-z]/.test(p) },
+  { label: 'An uppercase letter', test: (p) => /[A-Z]/.test(p) },
+  { label: 'A number', test: (p) => /[0-9]/.test(p) },
+];
+
+export const validateUsername = (username: string): string | null => {
+  if (!username) {
+    return 'Please enter a username';
+  }
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be ${USERNAME_MIN_LENGTH}-${USERNAME_MAX_LENGTH} characters`;
+  }
+  if (!/^[A-Za-z0-9_.-]+$/.test(username)) {
+    return 'Username can only contain letters, numbers, dots, dashes and underscores';
+  }
+  return null;
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (!password) {
+    return 'Please enter a password';
+  }
+  const failed = PASSWORD_RULES.find((rule) => !rule.test(password));
+  return failed ? `Password needs: ${failed.label.toLowerCase()}` : null;
+};
+
+// Shared by registration, password reset and change password
+export const validateNewPassword = (
+  password: string,
+  confirmPassword: string
+): FieldErrors<'password' | 'confirmPassword'> => {
+  const errors: FieldErrors<'password' | 'confirmPassword'> = {};
+
+  const passwordError = validatePassword(password);
+  if (passwordError) errors.password = passwordError;
+
+  if (!confirmPassword) {
+    errors.confirmPassword = 'Please confirm your password';
+  } else if (confirmPassword !== password) {
+    errors.confirmPassword = 'Passwords do not match';
+  }
+
+  return errors;
+};
+
+export const validateRegistration = (
+  username: string,
+  password: string,
+  confirmPassword: string
+): FieldErrors => {
+  const errors: FieldErrors = validateNewPassword(password, confirmPassword);
+
+  const usernameError = validateUsername(username);
+  if (usernameError) errors.username = usernameError;
+
+  return errors;
+};
+
+export type PasswordStrength = {
+  score: 0 | 1 | 2 | 3 | 4;
+  label: 'Too weak' | 'Weak' | 'Fair' | 'Good' | 'Strong';
+};
+
+const STRENGTH_LABELS: PasswordStrength['label'][] = ['Too weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+// Rough strength estimate for the live meter; the rules above decide what is accepted
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (!password) {
+    return { score: 0, label: STRENGTH_LABELS[0] };
+  }
+
+  let points = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) points++;
+  if (password.length >= 12) points++;
+  if (/[a-z]/.test(password) && /[A-Z]/.test(password)) points++;
+  if (/[0-9]/.test(password)) points++;
+  if (/[^A-Za-z0-9]/.test(password)) points++;
+
+  // Repeated characters or an all-digit password are easy to guess
+  if (/(.)\1{2,}/.test(password) || /^[0-9]+$/.test(password)) points--;
+  if (password.length < PASSWORD_MIN_LENGTH) points = Math.min(points, 1);
+
+  const score = Math.max(0, Math.min(4, points - 1)) as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score] };
+};
+
+export const PLANT_NAME_MAX_LENGTH = 50;
+export const PLANT_LOCATION_MAX_LENGTH = 40;
+export const PLANT_NOTES_MAX_LENGTH = 1000;
+
+export type PlantEditField = 'name' | 'type' | 'acquiredDate' | 'location' | 'notes';
+
+export type PlantEditValues = Record<PlantEditField, string>;
+
+// Real calendar date in YYYY-MM-DD form (rejects things like 2024-02-30)
+export const isValidIsoDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+// Local calendar date as YYYY-MM-DD (toISOString would give the UTC date)
+export const toLocalIsoDate = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+
+// Date, location and notes are optional; a plant always needs a species
+export const validatePlantEdit = (values: PlantEditValues, today: Date = new Date()): FieldErrors<PlantEditField> => {
+  const errors: FieldErrors<PlantEditField> = {};
+
+  if (values.name.trim().length > PLANT_NAME_MAX_LENGTH) {
+    errors.name = `Nickname must be at most ${PLANT_NAME_MAX_LENGTH} characters`;
+  }
+
+  if (!values.type.trim()) {
+    errors.type = 'Please enter a species';
+  }
+
+  const acquired = values.acquiredDate.trim();
+  if (acquired) {
+    if (!isValidIsoDate(acquired)) {
+      errors.acquiredDate = 'Use the format YYYY-MM-DD';
+    } else if (acquired > toLocalIsoDate(today)) {
+      errors.acquiredDate = "Acquisition date can't be in the future";
+    }
+  }
+
+  if (values.location.trim().length > PLANT_LOCATION_MAX_LENGTH) {
+    errors.location = `Location must be at most ${PLANT_LOCATION_MAX_LENGTH} characters`;
+  }
+
+  if (values.notes.length > PLANT_NOTES_MAX_LENGTH) {
+    errors.notes = `Notes must be at most ${PLANT_NOTES_MAX_LENGTH} characters`;
+  }
+
+  return errors;
+};
+
+export const JOURNAL_TEXT_MAX_LENGTH = 2000;
+export const JOURNAL_MAX_PHOTOS = 4;
+
+export type JournalField = 'date' | 'text';
+
+// An entry needs a date and either some text or at least one photo
+export const validateJournalEntry = (
+  values: { date: string; text: string },
+  photoCount: number,
+  today: Date = new Date()
+): FieldErrors<JournalField> => {
+  const errors: FieldErrors<JournalField> = {};
+
+  const date = values.date.trim();
+  if (!isValidIsoDate(date)) {
+    errors.date = 'Use the format YYYY-MM-DD';
+  } else if (date > toLocalIsoDate(today)) {
+    errors.date = "Entries can't be dated in the future";
+  }
+
+  if (!values.text.trim() && photoCount === 0) {
+    errors.text = 'Write something or add a photo';
+  } else if (values.text.length > JOURNAL_TEXT_MAX_LENGTH) {
+    errors.text = `Entries must be at most ${JOURNAL_TEXT_MAX_LENGTH} characters`;
+  }
+
+  return errors;
+};
+
+// Map a FastAPI 422 `detail` array onto form fields (server field name -> form field);
+// anything else becomes a form-level error
+export const getServerFieldErrors = <F extends string>(
+  error: unknown,
+  fallback: string,
+  fields: Record<string, F>
+): FieldErrors<F> => {
+  if (!(error instanceof ApiError)) {
+    return { form: fallback } as FieldErrors<F>;
+  }
+
+  if (error.status !== 422 || !Array.isArray(error.detail)) {
+    return { form: formatErrorDetail(error.detail) || error.message || fallback } as FieldErrors<F>;
+  }
+
+  const errors: FieldErrors<F> = {};
+  const unmatched: string[] = [];
+
+  (error.detail as ValidationErrorItem[]).forEach((item) => {
+    const field = fields[String(item.loc?.[item.loc.length - 1])];
+    if (field) {
+      const existing = errors[field];
+      errors[field] = existing ? `${existing}\n${item.msg}` : item.msg;
+    } else {
+      unmatched.push(item.msg);
+    }
+  });
+
+  if (unmatched.length > 0) {
+    errors.form = unmatched.join('\n');
+  }
+
+  return errors;
+};